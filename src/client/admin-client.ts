@@ -15,22 +15,28 @@
  * limitations under the License.
  */
 
-import { App } from "firebase-admin/app";
+import { App, AppOptions } from "firebase-admin/app";
 import { nextTick } from "process";
 import { TypedEmitter } from "tiny-typed-emitter";
 import { ClientError } from "./client-error";
-import { AdminConfig, AdminClientEvents, SignState } from "./types";
+import { AdminConfig, AdminClientEvents, EmulatorOptions, SignState } from "./types";
+import { resolveEmulators } from "./utils";
 import { AdminApp } from "../app";
 
 export class AdminClient extends TypedEmitter<AdminClientEvents> {
 	private _app!: AdminApp;
 	private _appDeleted = false;
 	private _appInitialised = false;
+	private _emulator: EmulatorOptions;
 	private _signState: SignState = SignState.NOT_YET;
 
 	constructor(protected config: AdminConfig, protected appName?: string) {
 		super();
-		nextTick(() => this.initClient(config, appName));
+
+		const { emulator, ...options } = config;
+
+		this._emulator = resolveEmulators(emulator);
+		nextTick(() => this.initClient(options, appName));
 	}
 
 	public get admin(): boolean {
@@ -49,12 +55,19 @@ export class AdminClient extends TypedEmitter<AdminClientEvents> {
 		return this._appInitialised;
 	}
 
+	/**
+	 * The emulators to which the client and the RTDB instances using it connect.
+	 */
+	public get emulator(): EmulatorOptions {
+		return this._emulator;
+	}
+
 	public get signState(): SignState {
 		return this._signState;
 	}
 
 	public deleteClient(): Promise<void> {
-		if (this._appDeleted === true) throw new ClientError("Client already deleted");
+		if (this._appDeleted === true) throw new ClientError("client/already-deleted", "Client already deleted");
 
 		// TODO: Add sign-out event ?
 		this._appDeleted = true;
@@ -62,9 +75,15 @@ export class AdminClient extends TypedEmitter<AdminClientEvents> {
 		return this._app.deleteApp();
 	}
 
-	private initClient(options: AdminConfig, name?: string) {
+	private initClient(options: AppOptions, name?: string) {
+		const { auth } = this._emulator;
 		let success = false;
 
+		// The admin SDK only reads the Auth emulator host from the environment, so it applies to the whole process.
+		// An existing value is kept, the database emulator is set by RTDB for this client only.
+		if (auth && !process.env.FIREBASE_AUTH_EMULATOR_HOST)
+			process.env.FIREBASE_AUTH_EMULATOR_HOST = `${auth.host}:${auth.port}`;
+
 		try {
 			this._signState = SignState.SIGN_IN;
 			this.emit("sign-in");
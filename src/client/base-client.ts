@@ -15,10 +15,11 @@
  * limitations under the License.
  */
 
-import { FirebaseApp, FirebaseError } from "firebase/app";
+import { FirebaseApp } from "firebase/app";
 import {
 	Auth,
 	UserCredential,
+	connectAuthEmulator,
 	createUserWithEmailAndPassword,
 	fetchSignInMethodsForEmail,
 	getAuth,
@@ -29,8 +30,8 @@ import {
 } from "firebase/auth";
 import { TypedEmitter } from "tiny-typed-emitter";
 import { ClientError } from "./client-error";
-import { Config, BaseClientEvents, Credentials, SignInFn, SignState } from "./types";
-import { createCustomToken } from "./utils";
+import { Config, BaseClientEvents, Credentials, EmulatorOptions, SignInFn, SignState } from "./types";
+import { createCustomToken, resolveEmulators, toClientError } from "./utils";
 import { App } from "../app";
 
 export class BaseClient extends TypedEmitter<BaseClientEvents> {
@@ -38,13 +39,24 @@ export class BaseClient extends TypedEmitter<BaseClientEvents> {
 	private _appDeleted = false;
 	private _appInitialised = false;
 	private _auth: Auth;
+	private _emulator: EmulatorOptions;
 	private _signState: SignState = SignState.NOT_YET;
 
 	constructor(config: Config, appName?: string) {
 		super();
-		this._app = new App(config, appName);
+
+		const { emulator, ...options } = config;
+
+		this._emulator = resolveEmulators(emulator);
+		this._app = new App(options, appName);
 		this._appInitialised = true;
 		this._auth = getAuth(this._app.app);
+
+		// Before any sign-in, the emulator cannot be set afterwards
+		if (this._emulator.auth) {
+			const { host, port } = this._emulator.auth;
+			connectAuthEmulator(this._auth, `http://${host}:${port}`, { disableWarnings: true });
+		}
 	}
 
 	public get admin(): boolean {
@@ -63,12 +75,19 @@ export class BaseClient extends TypedEmitter<BaseClientEvents> {
 		return this._appInitialised;
 	}
 
+	/**
+	 * The emulators to which the client and the RTDB instances using it connect.
+	 */
+	public get emulator(): EmulatorOptions {
+		return this._emulator;
+	}
+
 	public get signState(): SignState {
 		return this._signState;
 	}
 
 	public deleteClient(): Promise<void> {
-		if (this._appDeleted === true) throw new ClientError("Client already deleted");
+		if (this._appDeleted === true) throw new ClientError("client/already-deleted", "Client already deleted");
 
 		this._appDeleted = true;
 		this.emit("deleting-client");
@@ -106,15 +125,17 @@ export class BaseClient extends TypedEmitter<BaseClientEvents> {
 			} else if (method.includes("password")) {
 				return signInWithEmailAndPassword(this._auth, email, password);
 			} else {
-				throw new FirebaseError("auth/unknown-email", "Unknown email");
+				throw new ClientError("client/unknown-email", "Unknown email");
 			}
 		});
 	}
 
 	public signOut(): Promise<void> {
-		if (this._signState === SignState.NOT_YET) throw new ClientError("signOut called before signIn call");
-		if (this._signState === SignState.SIGN_OUT) throw new ClientError("signOut already called");
-		if (this._appDeleted === true) throw new ClientError("Client deleted");
+		if (this._signState === SignState.NOT_YET)
+			throw new ClientError("client/not-signed-in", "signOut called before signIn call");
+		if (this._signState === SignState.SIGN_OUT)
+			throw new ClientError("client/already-signed-out", "signOut already called");
+		if (this._appDeleted === true) throw new ClientError("client/deleted", "Client deleted");
 
 		this._signState = SignState.SIGN_OUT;
 		this.emit("sign-out");
@@ -124,8 +145,9 @@ export class BaseClient extends TypedEmitter<BaseClientEvents> {
 	protected async wrapSignIn(signInFn: SignInFn): Promise<UserCredential> {
 		let success = false;
 
-		if (this._signState === SignState.SIGNED_IN) throw new ClientError("Client already Signed in, Sign out before");
-		if (this._appDeleted === true) throw new ClientError("Client deleted");
+		if (this._signState === SignState.SIGNED_IN)
+			throw new ClientError("client/already-signed-in", "Client already Signed in, Sign out before");
+		if (this._appDeleted === true) throw new ClientError("client/deleted", "Client deleted");
 
 		try {
 			this.emit("sign-in");
@@ -133,6 +155,8 @@ export class BaseClient extends TypedEmitter<BaseClientEvents> {
 			this._signState = SignState.SIGNED_IN;
 			success = true;
 			return user;
+		} catch (error) {
+			throw toClientError(error);
 		} finally {
 			if (!success) this._signState = SignState.ERROR;
 			this.emit(success ? "signed-in" : "sign-in-error");
@@ -15,9 +15,14 @@
  * limitations under the License.
  */
 
-export class ClientError extends Error {
-	constructor(msg: string) {
-		super(msg);
+import { ClientErrorCode } from "./types";
+import { FirebaseNodeJSError, FirebaseNodeJSErrorOptions } from "../utils";
+
+export class ClientError extends FirebaseNodeJSError {
+	public declare readonly code: ClientErrorCode;
+
+	constructor(code: ClientErrorCode, msg: string, options?: FirebaseNodeJSErrorOptions) {
+		super(code, msg, options);
 		this.name = "ClientError";
 	}
 }
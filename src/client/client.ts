@@ -22,7 +22,7 @@ import { TypedEmitter } from "tiny-typed-emitter";
 import { AdminClient } from "./admin-client";
 import { BaseClient } from "./base-client";
 import { ClientError } from "./client-error";
-import { AppConfig, ClientEvents, Credentials, SignState } from "./types";
+import { AppConfig, ClientEvents, Credentials, EmulatorOptions, SignState } from "./types";
 import { checkJSONCredential } from "./utils";
 
 export class Client extends TypedEmitter<ClientEvents> {
@@ -48,6 +48,10 @@ export class Client extends TypedEmitter<ClientEvents> {
 		return this.client?.clientInitialised;
 	}
 
+	public get emulator(): EmulatorOptions | undefined {
+		return this.client?.emulator;
+	}
+
 	public get signState(): SignState {
 		return this.client?.signState || SignState.NOT_YET;
 	}
@@ -71,7 +75,8 @@ export class Client extends TypedEmitter<ClientEvents> {
 	}
 
 	public signInAnonymously(): Promise<UserCredential> {
-		if (this.signState === SignState.SIGNED_IN) throw new ClientError("Client already Signed in, Sign out before");
+		if (this.signState === SignState.SIGNED_IN)
+			throw new ClientError("client/already-signed-in", "Client already Signed in, Sign out before");
 
 		this.client = new BaseClient(this.config, this.appName);
 		this.attachListeners();
@@ -79,7 +84,8 @@ export class Client extends TypedEmitter<ClientEvents> {
 	}
 
 	public signInWithCustomToken(cred: Credentials, uid: string, claims?: object): Promise<UserCredential> {
-		if (this.signState === SignState.SIGNED_IN) throw new ClientError("Client already Signed in, Sign out before");
+		if (this.signState === SignState.SIGNED_IN)
+			throw new ClientError("client/already-signed-in", "Client already Signed in, Sign out before");
 
 		this.client = new BaseClient(this.config, this.appName);
 		this.attachListeners();
@@ -87,7 +93,8 @@ export class Client extends TypedEmitter<ClientEvents> {
 	}
 
 	public signInWithEmailAndPassword(email: string, password: string, createUser?: boolean): Promise<UserCredential> {
-		if (this.signState === SignState.SIGNED_IN) throw new ClientError("Client already Signed in, Sign out before");
+		if (this.signState === SignState.SIGNED_IN)
+			throw new ClientError("client/already-signed-in", "Client already Signed in, Sign out before");
 
 		this.client = new BaseClient(this.config, this.appName);
 		this.attachListeners();
@@ -95,7 +102,8 @@ export class Client extends TypedEmitter<ClientEvents> {
 	}
 
 	public signInWithPrivateKey(projectId: string, clientEmail: string, privateKey: string): void {
-		if (this.signState === SignState.SIGNED_IN) throw new ClientError("Client already Signed in, Sign out before");
+		if (this.signState === SignState.SIGNED_IN)
+			throw new ClientError("client/already-signed-in", "Client already Signed in, Sign out before");
 
 		const credential = { credential: cert(checkJSONCredential({ clientEmail, privateKey, projectId })) };
 		this.client = new AdminClient({ ...this.config, ...credential }, this.appName);
@@ -108,16 +116,19 @@ export class Client extends TypedEmitter<ClientEvents> {
 	 * @param serviceAccountId
 	 */
 	public signInWithServiceAccountId(serviceAccountId: string): void {
-		if (this.signState === SignState.SIGNED_IN) throw new ClientError("Client already Signed in, Sign out before");
+		if (this.signState === SignState.SIGNED_IN)
+			throw new ClientError("client/already-signed-in", "Client already Signed in, Sign out before");
 
 		this.client = new AdminClient({ ...this.config, serviceAccountId }, this.appName);
 		this.attachListeners();
 	}
 
 	public async signOut(): Promise<void> {
-		if (this.signState === SignState.NOT_YET) throw new ClientError("signOut called before signIn call");
-		if (this.signState === SignState.SIGN_OUT) throw new ClientError("signOut already called");
-		if (!this.client) throw new ClientError("Client to delete missing");
+		if (this.signState === SignState.NOT_YET)
+			throw new ClientError("client/not-signed-in", "signOut called before signIn call");
+		if (this.signState === SignState.SIGN_OUT)
+			throw new ClientError("client/already-signed-out", "signOut already called");
+		if (!this.client) throw new ClientError("client/missing-client", "Client to delete missing");
 
 		if (!this.admin) await (this.client as BaseClient).signOut();
 
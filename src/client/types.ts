@@ -37,11 +37,45 @@ export interface BaseClientEvents {
 
 export type ClientEvents = BaseClientEvents;
 
-export type AdminConfig = AppOptions;
+/** The codes of the errors of the clients, the codes of the SDK errors are converted to `client/<reason>` */
+export type ClientErrorCode =
+	| "client/already-deleted"
+	| "client/already-signed-in"
+	| "client/already-signed-out"
+	| "client/deleted"
+	| "client/invalid-claims"
+	| "client/invalid-credentials"
+	| "client/invalid-emulator"
+	| "client/missing-client"
+	| "client/not-signed-in"
+	| "client/unknown-email";
 
-export type AppConfig = Omit<AppOptions, "credential" | "serviceAccountId"> | FirebaseOptions;
+export type AdminConfig = AppOptions & EmulatorConfig;
 
-export type Config = FirebaseOptions;
+export type AppConfig = (Omit<AppOptions, "credential" | "serviceAccountId"> | FirebaseOptions) & EmulatorConfig;
+
+export type Config = FirebaseOptions & EmulatorConfig;
+
+export interface EmulatorHost {
+	host: string;
+	port: number;
+}
+
+export interface EmulatorOptions {
+	/**
+	 * Default: the `FIREBASE_AUTH_EMULATOR_HOST` environment variable, if set.
+	 * With the admin SDK, this option sets the environment variable if not already set, so it applies
+	 * to all the admin clients of the process.
+	 */
+	auth?: EmulatorHost;
+	/** Default: the `FIREBASE_DATABASE_EMULATOR_HOST` environment variable, if set */
+	database?: EmulatorHost;
+}
+
+export interface EmulatorConfig {
+	/** Connects to the emulators instead of the production services */
+	emulator?: EmulatorOptions;
+}
 
 export enum SignState {
 	"NOT_YET",
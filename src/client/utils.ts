@@ -18,9 +18,11 @@
 import { FirebaseError } from "firebase/app";
 import { ServiceAccount, cert } from "firebase-admin/app";
 import { getAuth } from "firebase-admin/auth";
+import { ClientError } from "./client-error";
 import { claimsNotAllowed } from "./constants";
-import { Credentials, ServiceAccountId } from "./types";
+import { ClientErrorCode, Credentials, EmulatorHost, EmulatorOptions, ServiceAccountId } from "./types";
 import { AdminApp } from "../app";
+import { classifyErrorCode, FirebaseNodeJSError, FirebaseNodeJSErrorOptions, isRTDBServerCode } from "../utils";
 
 /**
  * Check if the received JSON content credentials contain the desired elements.
@@ -29,20 +31,26 @@ import { AdminApp } from "../app";
  */
 function checkJSONCredential(content: unknown): ServiceAccount {
 	if (!content || typeof content !== "object" || !Object.keys(content).length)
-		throw new TypeError("JSON Object must contain 'projectId', 'clientEmail' and 'privateKey'");
+		throw new ClientError(
+			"client/invalid-credentials",
+			"JSON Object must contain 'projectId', 'clientEmail' and 'privateKey'"
+		);
 
 	for (const key of ["clientEmail", "privateKey", "projectId"]) {
-		if (!content[key as keyof typeof content]) throw new TypeError(`JSON Content must contain '${key}'`);
+		if (!content[key as keyof typeof content])
+			throw new ClientError("client/invalid-credentials", `JSON Content must contain '${key}'`);
 	}
 
 	return content;
 }
 
 async function createCustomToken(cred: Credentials, uid: string, claims?: object): Promise<string> {
-	if (claims && typeof claims !== "object") throw new TypeError("Claims type must be an object");
+	if (claims && typeof claims !== "object")
+		throw new ClientError("client/invalid-claims", "Claims type must be an object");
 
 	Object.keys(claims || {}).forEach((key) => {
-		if (claimsNotAllowed.includes(key)) throw new Error(`Claim key '${key}' is not allowed`);
+		if (claimsNotAllowed.includes(key))
+			throw new ClientError("client/invalid-claims", `Claim key '${key}' is not allowed`);
 	});
 
 	const credential = cred
@@ -57,15 +65,74 @@ async function createCustomToken(cred: Credentials, uid: string, claims?: object
 	return token;
 }
 
-function isFirebaseError(error: unknown): error is FirebaseError {
-	return (
-		error instanceof FirebaseError ||
-		(Object.prototype.hasOwnProperty.call(error, "code") &&
-			typeof error === "object" &&
-			error !== null &&
-			"name" in error &&
-			error.name === "FirebaseError")
-	);
+/**
+ * Gets the emulator from the environment variable, like `localhost:9099`.
+ * @param host The value of the environment variable
+ * @returns The emulator, if set
+ */
+function parseEmulatorHost(host?: string): EmulatorHost | undefined {
+	if (!host) return;
+
+	const separator = host.lastIndexOf(":");
+
+	return { host: host.slice(0, separator), port: Number(host.slice(separator + 1)) };
+}
+
+/**
+ * Gets the emulators to connect to: the ones of the config, otherwise the ones of the environment variables.
+ * Throws an error if an emulator is invalid.
+ * @param options The emulator options of the config
+ * @returns The emulators checked
+ */
+function resolveEmulators(options?: EmulatorOptions): EmulatorOptions {
+	if (options !== undefined && (!options || typeof options !== "object"))
+		throw new ClientError("client/invalid-emulator", "The emulator options must be an object!");
+
+	const emulators: EmulatorOptions = {
+		auth: options?.auth ?? parseEmulatorHost(process.env.FIREBASE_AUTH_EMULATOR_HOST),
+		database: options?.database ?? parseEmulatorHost(process.env.FIREBASE_DATABASE_EMULATOR_HOST),
+	};
+
+	for (const [name, emulator] of Object.entries(emulators)) {
+		if (!emulator) continue;
+		if (typeof emulator.host !== "string" || !emulator.host)
+			throw new ClientError("client/invalid-emulator", `The ${name} emulator host must be a non-empty string!`);
+		if (!(Number.isInteger(emulator.port) && emulator.port > 0))
+			throw new ClientError("client/invalid-emulator", `The ${name} emulator port must be an INTEGER > 0!`);
+	}
+
+	return emulators;
+}
+
+/**
+ * Checks if the error comes from Firebase, thrown by this library or by the SDKs.
+ * @param error The error to check
+ * @param code The code the error must have, in the code space of the library, e.g. `client/wrong-password`
+ * @returns `true` if the error comes from Firebase, with the code if given
+ */
+function isFirebaseError(error: unknown, code?: string): error is FirebaseError | FirebaseNodeJSError {
+	const fromSDK =
+		typeof error === "object" &&
+		error !== null &&
+		"code" in error &&
+		typeof error.code === "string" &&
+		// The errors of the client SDK, of the admin SDK then of the Realtime Database server
+		(("name" in error && error.name === "FirebaseError") || "errorInfo" in error || isRTDBServerCode(error.code));
+	const fromFirebase = error instanceof FirebaseNodeJSError || error instanceof FirebaseError || fromSDK;
+
+	return fromFirebase && (code === undefined || classifyErrorCode(error) === code);
+}
+
+/**
+ * Wraps the error of the SDK in a ClientError, with the code converted and the original error as cause.
+ * @param error The error thrown
+ * @param options The context of the error
+ * @returns The ClientError, or the error as is if it does not come from the SDK
+ */
+function toClientError(error: unknown, options?: FirebaseNodeJSErrorOptions): unknown {
+	if (error instanceof FirebaseNodeJSError || !isFirebaseError(error)) return error;
+
+	return new ClientError(classifyErrorCode(error) as ClientErrorCode, error.message, { ...options, cause: error });
 }
 
-export { checkJSONCredential, createCustomToken, isFirebaseError };
+export { checkJSONCredential, createCustomToken, isFirebaseError, resolveEmulators, toClientError };
@@ -15,58 +15,160 @@
  * limitations under the License.
  */
 
+import { randomBytes } from "crypto";
 import { Database, onValue, ref, Unsubscribe } from "firebase/database";
+import { Database as AdminDatabase } from "firebase-admin/database";
 import { nextTick } from "process";
 import { ConnectionState } from "./types";
-import { RTDB } from "../rtdb";
+import { RestDatabase, RTDB, ServerTimeOptions, toRTDBError } from "../rtdb";
+import { getErrorCode } from "../utils";
 
 export class Connection {
 	private _state: ConnectionState = ConnectionState.DISCONNECTED;
+	private _serverTimeOffset = 0;
 	private firstConnectionEtablished = false;
+	private offsetSubscriptionCallback?: Unsubscribe;
 	private subscriptionCallback?: Unsubscribe;
 	private timeoutID: ReturnType<typeof setTimeout> | undefined;
 
-	constructor(protected database: RTDB) {
-		nextTick(() => this.subscribeConnectionState());
+	/**
+	 * @param database The database without its schema, the paths of the connection being outside of it
+	 * @param serverTimeOptions The options to measure the server time offset
+	 */
+	constructor(protected database: RTDB, protected serverTimeOptions: ServerTimeOptions = {}) {
+		nextTick(() => {
+			this.subscribeConnectionState();
+			this.subscribeServerTimeOffset();
+		});
+	}
+
+	public get serverTimeOffset(): number {
+		return this._serverTimeOffset;
 	}
 
 	public get state(): ConnectionState {
 		return this._state;
 	}
 
+	/**
+	 * Measures the offset by writing a server timestamp, the middle of the write round trip being taken
+	 * as the moment the server has written it. The scratch node is written directly with the SDK,
+	 * neither queued in the outbox nor checked against the local rules.
+	 */
+	private async measureServerTimeOffset() {
+		const database = this.database.database;
+		const path = `${this.serverTimeOptions.scratchPath ?? "_serverTime"}/${randomBytes(8).toString("hex")}`;
+		let start: number;
+		let end: number;
+		let timestamp: unknown;
+
+		if (database instanceof RestDatabase) {
+			start = Date.now();
+			await database.write("set", path, { ".sv": "timestamp" });
+			end = Date.now();
+			timestamp = (await database.get(path)).val();
+			await database.write("remove", path);
+		} else {
+			const reference = (database as AdminDatabase).ref(path);
+
+			start = Date.now();
+			await reference.set({ ".sv": "timestamp" });
+			end = Date.now();
+			timestamp = (await reference.once("value")).val();
+			await reference.remove();
+		}
+
+		if (typeof timestamp === "number") this.setServerTimeOffset(timestamp - (start + end) / 2);
+	}
+
+	private setServerTimeOffset(offset: number) {
+		const previousOffset = this._serverTimeOffset;
+
+		this._serverTimeOffset = offset;
+
+		if (Math.abs(offset - previousOffset) >= (this.serverTimeOptions.threshold ?? 1000))
+			this.database.emit("server-time-offset", offset);
+	}
+
 	private subscribeConnectionState(): void {
-		const databaseURL = this.database.database.app.options.databaseURL;
-		this.subscriptionCallback = onValue(
-			ref(this.database.database as Database, ".info/connected"),
-			(snapshot) => {
-				if (snapshot.val() === true) {
-					if (this.timeoutID) {
-						clearTimeout(this.timeoutID);
-						this.timeoutID = undefined;
-					}
-					this._state = ConnectionState.CONNECTED;
-					this.firstConnectionEtablished = true;
-					this.database.emit("connected");
-					this.database.emit("log", `Connected to Firebase RTDB: ${databaseURL}`);
-				} else {
-					// Based on maximum time for Firebase admin
-					this.timeoutID = setTimeout(() => {
-						this._state = ConnectionState.DISCONNECTED;
-						this.database.emit("disconnected");
-					}, 30000);
-
-					this._state = this.firstConnectionEtablished ? ConnectionState.RE_CONNECTING : ConnectionState.CONNECTING;
-
-					if (this.firstConnectionEtablished === true) this.database.emit("disconnect");
-					this.firstConnectionEtablished ? this.database.emit("re-connecting") : this.database.emit("connecting");
-					this.database.emit(
-						"log",
-						`${this.firstConnectionEtablished ? "Re-" : ""}Connecting to Firebase RTDB: ${databaseURL}`
+		const database = this.database.database;
+		const databaseURL = database instanceof RestDatabase ? database.url : database.app.options.databaseURL;
+		const onConnected = (connected: boolean) => {
+			if (connected) {
+				if (this.timeoutID) {
+					clearTimeout(this.timeoutID);
+					this.timeoutID = undefined;
+				}
+				this._state = ConnectionState.CONNECTED;
+				this.firstConnectionEtablished = true;
+				this.database.emit("connected");
+				this.database.emit("log", `Connected to Firebase RTDB: ${databaseURL}`);
+
+				if (this.database.client.admin || database instanceof RestDatabase) {
+					this.measureServerTimeOffset().catch((error: Error) =>
+						this.database.emit("log", `Unable to measure the server time offset: ${error.message}`)
 					);
 				}
-			},
-			(error) => {
-				throw error;
+			} else {
+				// Based on maximum time for Firebase admin
+				this.timeoutID = setTimeout(() => {
+					this._state = ConnectionState.DISCONNECTED;
+					this.database.emit("disconnected");
+				}, 30000);
+
+				this._state = this.firstConnectionEtablished ? ConnectionState.RE_CONNECTING : ConnectionState.CONNECTING;
+
+				if (this.firstConnectionEtablished === true) this.database.emit("disconnect");
+				this.firstConnectionEtablished ? this.database.emit("re-connecting") : this.database.emit("connecting");
+				this.database.emit(
+					"log",
+					`${this.firstConnectionEtablished ? "Re-" : ""}Connecting to Firebase RTDB: ${databaseURL}`
+				);
+			}
+		};
+
+		// The REST API has no `.info` location, the state comes from the requests
+		if (database instanceof RestDatabase) {
+			this.subscriptionCallback = database.onConnected(onConnected);
+			return;
+		}
+
+		this.subscriptionCallback = onValue(
+			ref(database as Database, ".info/connected"),
+			(snapshot) => onConnected(snapshot.val() === true),
+			(errorRaw) => {
+				const error = toRTDBError(errorRaw, { listener: "value", path: ".info/connected" });
+
+				this.subscriptionCallback = undefined;
+				this.database.emit("subscription-error", {
+					listener: "value",
+					path: ".info/connected",
+					code: getErrorCode(error),
+					error,
+				});
+			}
+		);
+	}
+
+	private subscribeServerTimeOffset(): void {
+		const database = this.database.database;
+
+		// Measured on each connection instead
+		if (this.database.client.admin || database instanceof RestDatabase) return;
+
+		this.offsetSubscriptionCallback = onValue(
+			ref(database as Database, ".info/serverTimeOffset"),
+			(snapshot) => this.setServerTimeOffset(snapshot.val() ?? 0),
+			(errorRaw) => {
+				const error = toRTDBError(errorRaw, { listener: "value", path: ".info/serverTimeOffset" });
+
+				this.offsetSubscriptionCallback = undefined;
+				this.database.emit("subscription-error", {
+					listener: "value",
+					path: ".info/serverTimeOffset",
+					code: getErrorCode(error),
+					error,
+				});
 			}
 		);
 	}
@@ -74,7 +176,9 @@ export class Connection {
 	// TODO: détacher l'écouteur ?
 	public removeConnectionState(): void {
 		if (this.subscriptionCallback) this.subscriptionCallback();
+		if (this.offsetSubscriptionCallback) this.offsetSubscriptionCallback();
 
 		this.subscriptionCallback = undefined;
+		this.offsetSubscriptionCallback = undefined;
 	}
 }
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FirestoreErrorCode } from "./types";
+import { FirebaseNodeJSError, FirebaseNodeJSErrorOptions } from "../utils";
+
+export class FirestoreError extends FirebaseNodeJSError {
+	public declare readonly code: FirestoreErrorCode;
+
+	constructor(code: FirestoreErrorCode, msg: string, options?: FirebaseNodeJSErrorOptions) {
+		super(code, msg, options);
+		this.name = "FirestoreError";
+	}
+}
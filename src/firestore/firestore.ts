@@ -0,0 +1,636 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FirebaseApp } from "firebase/app";
+import * as firestore from "firebase/firestore";
+import {
+	Firestore as ClientFirestore,
+	collection,
+	connectFirestoreEmulator,
+	doc,
+	getFirestore,
+	onSnapshot,
+	query,
+	QueryConstraint,
+} from "firebase/firestore";
+import { App } from "firebase-admin/app";
+import {
+	DocumentReference as AdminDocumentReference,
+	Firestore as AdminFirestore,
+	FieldValue,
+	getFirestore as adminGetFirestore,
+	Query as AdminQuery,
+} from "firebase-admin/firestore";
+import { TypedEmitter } from "tiny-typed-emitter";
+import { FirestoreError } from "./firestore-error";
+import { FirestoreTransaction } from "./transaction";
+import {
+	BatchOperation,
+	DocumentCallback,
+	DocumentData,
+	FieldValuePlaceholder,
+	FirestoreDocument,
+	FirestoreEmulatorOptions,
+	FirestoreEvents,
+	FirestoreOptions,
+	FirestoreQueryConstraints,
+	FirestoreQueryResult,
+	FirestoreSetOptions,
+	FirestoreUnsubscribe,
+	QueryCallback,
+	WhereOperatorMap,
+} from "./types";
+import { toDocument, toFirestoreError, toQueryResult } from "./utils";
+import { AdminClient, AdminClientEvents, BaseClient, Client } from "../client";
+import { FirebaseNodeJSErrorOptions, getErrorCode, printEnumKeys } from "../utils";
+
+type Cursor = "endAt" | "endBefore" | "startAfter" | "startAt";
+
+const cursors: Cursor[] = ["endAt", "endBefore", "startAfter", "startAt"];
+
+/** The Firestore instances of the SDKs already connected to the emulator, shared by the Firestore instances */
+const emulatedFirestores = new WeakSet<AdminFirestore | ClientFirestore>();
+
+/**
+ * The Firestore database of the client, the same for the admin and client SDKs.
+ */
+export class Firestore extends TypedEmitter<FirestoreEvents> {
+	private _app?: App | FirebaseApp;
+	private _emulator?: FirestoreEmulatorOptions;
+	private _firestore!: AdminFirestore | ClientFirestore;
+
+	constructor(public readonly client: AdminClient | BaseClient | Client, options: FirestoreOptions = {}) {
+		if (!(client instanceof AdminClient) && !(client instanceof BaseClient) && !(client instanceof Client))
+			throw new FirestoreError("firestore/invalid-argument", "Firestore must be instantiated with Client as parameter");
+
+		const emulator = options.emulator ?? Firestore.parseEmulatorHost(process.env.FIRESTORE_EMULATOR_HOST);
+
+		if (emulator && (typeof emulator.host !== "string" || !emulator.host))
+			throw new FirestoreError("firestore/invalid-emulator", "The emulator host must be a non-empty string!");
+		if (emulator && !(Number.isInteger(emulator.port) && emulator.port > 0))
+			throw new FirestoreError("firestore/invalid-emulator", "The emulator port must be an INTEGER > 0!");
+
+		super();
+		this._emulator = emulator;
+		this.getFirestore();
+		this.attachClientListeners();
+	}
+
+	public get firestore(): AdminFirestore | ClientFirestore {
+		return this._firestore;
+	}
+
+	/**
+	 * Adds a document with a generated ID to the collection.
+	 * @param path The path of the collection
+	 * @param data The data of the document
+	 * @returns The ID of the document added
+	 */
+	public async addDocument(path: string, data: DocumentData): Promise<string> {
+		const pathParsed = this.checkPath(path, "collection");
+		const dataParsed = this.resolveFieldValues(this.checkData(data)) as DocumentData;
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._firestore)) return (await this._firestore.collection(pathParsed).add(dataParsed)).id;
+
+				return (await firestore.addDoc(collection(this._firestore, pathParsed), dataParsed)).id;
+			},
+			{ method: "addDocument", path: pathParsed }
+		);
+	}
+
+	private attachClientListeners() {
+		// Each client emits these events, the union of their emitters is just not callable
+		const client = this.client as TypedEmitter<AdminClientEvents>;
+
+		client.on("signed-in", () => this.restoreFirestore());
+	}
+
+	/**
+	 * Writes the operations atomically, all or none of them are applied.
+	 * @param operations The writes to do, 500 at most
+	 */
+	public async batch(operations: BatchOperation[]): Promise<void> {
+		if (!Array.isArray(operations) || !operations.length)
+			throw new FirestoreError("firestore/invalid-batch", "The batch must be an array of at least one operation!");
+		if (operations.length > 500)
+			throw new FirestoreError("firestore/invalid-batch", "The batch must not contain more than 500 operations!");
+
+		const batch = this.isAdmin(this._firestore) ? this._firestore.batch() : firestore.writeBatch(this._firestore);
+		// The batches of both SDKs have the same methods
+		const writeBatch = batch as firestore.WriteBatch;
+
+		for (const operation of operations) {
+			const ref = this.documentRef(operation?.path) as firestore.DocumentReference;
+
+			switch (operation.type) {
+				case "delete":
+					writeBatch.delete(ref);
+					break;
+				case "set":
+					writeBatch.set(
+						ref,
+						this.resolveFieldValues(this.checkData(operation.data)) as DocumentData,
+						this.checkSetOptions(operation.options)
+					);
+					break;
+				case "update":
+					writeBatch.update(
+						ref,
+						this.resolveFieldValues(this.checkData(operation.data)) as firestore.UpdateData<DocumentData>
+					);
+					break;
+				default:
+					throw new FirestoreError(
+						"firestore/invalid-batch",
+						"The batch operation type must be 'delete', 'set' or 'update'!"
+					);
+			}
+		}
+
+		await this.wrapErrors(() => writeBatch.commit(), { method: "batch" });
+	}
+
+	/**
+	 * Reports the error of the cancelled listener instead of throwing it from the SDK callback.
+	 * @param path The path of the listener
+	 * @param error The error received from the server
+	 * @param errorCallback The function to call with the error
+	 */
+	private cancelSubscription(path: string, errorRaw: Error, errorCallback?: (error: Error) => void) {
+		const error = toFirestoreError(errorRaw, { path });
+
+		this.emit("subscription-error", { path, code: getErrorCode(error), error });
+
+		if (errorCallback) errorCallback(error);
+	}
+
+	/**
+	 * Checks if the Query constraints are valid otherwise throws an error.
+	 * @param constraints The Query constraints to be checked
+	 * @returns The Query constraints checked
+	 */
+	protected checkConstraints(constraints: unknown): FirestoreQueryConstraints {
+		if (constraints === undefined) return {};
+		if (!constraints || typeof constraints !== "object")
+			throw new FirestoreError("firestore/invalid-query", "Query Constraints must be an object!");
+
+		const { limit, limitToLast, orderBy = [], where = [] } = constraints as FirestoreQueryConstraints;
+
+		if (!Array.isArray(where))
+			throw new FirestoreError("firestore/invalid-query", "The 'where' constraint must be an array!");
+		if (!Array.isArray(orderBy))
+			throw new FirestoreError("firestore/invalid-query", "The 'orderBy' constraint must be an array!");
+
+		for (const { field, operator } of where) {
+			if (typeof field !== "string" || !field)
+				throw new FirestoreError("firestore/invalid-query", "The 'where' field must be a non-empty string!");
+			if (!(typeof operator === "string" && operator in WhereOperatorMap))
+				throw new FirestoreError(
+					"firestore/invalid-query",
+					`The 'where' operator must be one of ${printEnumKeys(WhereOperatorMap)}.`
+				);
+		}
+
+		for (const { direction, field } of orderBy) {
+			if (typeof field !== "string" || !field)
+				throw new FirestoreError("firestore/invalid-query", "The 'orderBy' field must be a non-empty string!");
+			if (direction !== undefined && direction !== "asc" && direction !== "desc")
+				throw new FirestoreError("firestore/invalid-query", "The 'orderBy' direction must be 'asc' or 'desc'!");
+		}
+
+		for (const [name, value] of Object.entries({ limit, limitToLast })) {
+			if (value !== undefined && !(typeof value === "number" && Number.isInteger(value) && value > 0))
+				throw new FirestoreError("firestore/invalid-query", `The '${name}' constraint must be an INTEGER > 0!`);
+		}
+
+		if (limit !== undefined && limitToLast !== undefined)
+			throw new FirestoreError(
+				"firestore/invalid-query",
+				"The 'limit' and 'limitToLast' constraints cannot be used together!"
+			);
+		if (limitToLast !== undefined && !orderBy.length)
+			throw new FirestoreError(
+				"firestore/invalid-query",
+				"The 'limitToLast' constraint requires an 'orderBy' constraint!"
+			);
+
+		for (const cursor of cursors) {
+			const values = (constraints as FirestoreQueryConstraints)[cursor];
+
+			if (values === undefined) continue;
+			if (!Array.isArray(values) || !values.length)
+				throw new FirestoreError(
+					"firestore/invalid-query",
+					`The '${cursor}' constraint must be a non-empty array of values!`
+				);
+			if (values.length > orderBy.length)
+				throw new FirestoreError(
+					"firestore/invalid-query",
+					`The '${cursor}' constraint cannot have more values than 'orderBy' fields!`
+				);
+		}
+
+		return constraints as FirestoreQueryConstraints;
+	}
+
+	protected checkData(data: unknown): DocumentData {
+		if (!data || typeof data !== "object" || Array.isArray(data))
+			throw new FirestoreError("firestore/invalid-value", "The data of the document must be an object!");
+
+		return data as DocumentData;
+	}
+
+	/**
+	 * Checks if the path is a valid document or collection path otherwise throws an error.
+	 * A document path has an even number of segments, a collection path an odd number.
+	 * @param path The path to be checked
+	 * @param type Whether the path is of a document or a collection
+	 * @returns The path checked
+	 */
+	protected checkPath(path: unknown, type: "collection" | "document"): string {
+		if (typeof path !== "string") throw new FirestoreError("firestore/invalid-path", "The path must be a string!");
+
+		const segments = path.replace(/^\/|\/$/g, "").split("/");
+
+		if (!segments.join("")) throw new FirestoreError("firestore/invalid-path", "The path must not be empty!");
+		if (segments.some((segment) => !segment))
+			throw new FirestoreError("firestore/invalid-path", `The path "${path}" must not contain empty segments!`, {
+				path,
+			});
+		if (segments.some((segment) => segment === "." || segment === ".." || /^__.*__$/.test(segment)))
+			throw new FirestoreError("firestore/invalid-path", `The path "${path}" contains an invalid segment!`, { path });
+		if ((segments.length % 2 === 0) !== (type === "document"))
+			throw new FirestoreError(
+				"firestore/invalid-path",
+				type === "document"
+					? `The document path "${path}" must have an even number of segments!`
+					: `The collection path "${path}" must have an odd number of segments!`,
+				{ path }
+			);
+
+		return segments.join("/");
+	}
+
+	protected checkSetOptions(options: unknown): FirestoreSetOptions {
+		if (options === undefined) return {};
+		if (!options || typeof options !== "object")
+			throw new FirestoreError("firestore/invalid-options", "Set Options must be an object!");
+
+		const { merge, mergeFields } = options as FirestoreSetOptions;
+
+		if (merge !== undefined && typeof merge !== "boolean")
+			throw new FirestoreError("firestore/invalid-options", "The 'merge' option must be a boolean!");
+		if (mergeFields !== undefined && !(Array.isArray(mergeFields) && mergeFields.every((f) => typeof f === "string")))
+			throw new FirestoreError("firestore/invalid-options", "The 'mergeFields' option must be an array of strings!");
+		if (merge !== undefined && mergeFields !== undefined)
+			throw new FirestoreError(
+				"firestore/invalid-options",
+				"The 'merge' and 'mergeFields' options cannot be used together!"
+			);
+
+		return merge !== undefined ? { merge } : mergeFields !== undefined ? { mergeFields } : {};
+	}
+
+	public async deleteDocument(path: string): Promise<void> {
+		const ref = this.documentRef(path);
+
+		await this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._firestore)) {
+					await (ref as AdminDocumentReference).delete();
+					return;
+				}
+
+				await firestore.deleteDoc(ref as firestore.DocumentReference);
+			},
+			{ method: "deleteDocument", path: ref.path }
+		);
+	}
+
+	private documentRef(path: string) {
+		const pathParsed = this.checkPath(path, "document");
+
+		return this.isAdmin(this._firestore) ? this._firestore.doc(pathParsed) : doc(this._firestore, pathParsed);
+	}
+
+	/**
+	 * Gets the documents of the collection matching the Query constraints.
+	 * @param path The path of the collection
+	 * @param constraints The Query constraints
+	 * @returns The documents found
+	 */
+	public async getCollection<T = DocumentData>(
+		path: string,
+		constraints?: FirestoreQueryConstraints
+	): Promise<FirestoreQueryResult<T>> {
+		const ref = this.query(path, constraints);
+
+		return this.wrapErrors(
+			async () => {
+				if (ref instanceof AdminQuery) return toQueryResult<T>(await ref.get());
+
+				return toQueryResult<T>(await firestore.getDocs(ref));
+			},
+			{ method: "getCollection", path: this.checkPath(path, "collection") }
+		);
+	}
+
+	public async getDocument<T = DocumentData>(path: string): Promise<FirestoreDocument<T>> {
+		const ref = this.documentRef(path);
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._firestore)) return toDocument<T>(await (ref as AdminDocumentReference).get());
+
+				return toDocument<T>(await firestore.getDoc(ref as firestore.DocumentReference));
+			},
+			{ method: "getDocument", path: ref.path }
+		);
+	}
+
+	private getFirestore() {
+		if (!this.client.app || !this.client.clientInitialised)
+			throw new FirestoreError("firestore/not-initialized", "Firestore is called before the Client is initialized");
+
+		if (this.isAdminApp(this.client.app)) {
+			const db = adminGetFirestore(this.client.app);
+
+			// The admin SDK reads the FIRESTORE_EMULATOR_HOST environment variable itself and the settings can only be set once
+			if (this._emulator && !process.env.FIRESTORE_EMULATOR_HOST && !emulatedFirestores.has(db)) {
+				db.settings({ host: `${this._emulator.host}:${this._emulator.port}`, ssl: false });
+				emulatedFirestores.add(db);
+			}
+
+			this._app = this.client.app;
+			this._firestore = db;
+			return;
+		}
+
+		const db = getFirestore(this.client.app);
+
+		// The emulator can only be set once, before the first operation on the database
+		if (this._emulator && !emulatedFirestores.has(db)) {
+			connectFirestoreEmulator(db, this._emulator.host, this._emulator.port);
+			emulatedFirestores.add(db);
+		}
+
+		this._app = this.client.app;
+		this._firestore = db;
+	}
+
+	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+	// @ts-ignore
+	protected isAdmin(db: AdminFirestore | ClientFirestore): db is AdminFirestore {
+		if (this.client.admin === undefined)
+			throw new FirestoreError("firestore/not-initialized", "Property 'admin' missing in App class");
+		return this.client.admin;
+	}
+
+	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+	// @ts-ignore
+	protected isAdminApp(app: App | FirebaseApp): app is App {
+		if (this.client.admin === undefined)
+			throw new FirestoreError("firestore/not-initialized", "Property 'admin' missing in App class");
+		return this.client.admin;
+	}
+
+	/**
+	 * Gets the emulator options from the `FIRESTORE_EMULATOR_HOST` environment variable, like `localhost:8080`.
+	 * @param host The value of the environment variable
+	 * @returns The emulator options, if set
+	 */
+	private static parseEmulatorHost(host?: string): FirestoreEmulatorOptions | undefined {
+		if (!host) return;
+
+		const separator = host.lastIndexOf(":");
+
+		return { host: host.slice(0, separator), port: Number(host.slice(separator + 1)) };
+	}
+
+	private query(path: string, constraints?: FirestoreQueryConstraints) {
+		const pathParsed = this.checkPath(path, "collection");
+		const { limit, limitToLast, orderBy = [], where = [], ...rest } = this.checkConstraints(constraints);
+		const resolveCursor = (values: unknown[]) => values.map((value) => this.resolveFieldValues(value));
+
+		if (this.isAdmin(this._firestore)) {
+			let ref: AdminQuery = this._firestore.collection(pathParsed);
+
+			for (const { field, operator, value } of where) ref = ref.where(field, operator, value);
+			for (const { direction, field } of orderBy) ref = ref.orderBy(field, direction);
+			for (const cursor of cursors) if (rest[cursor]) ref = ref[cursor](...resolveCursor(rest[cursor] as unknown[]));
+			if (limit !== undefined) ref = ref.limit(limit);
+			if (limitToLast !== undefined) ref = ref.limitToLast(limitToLast);
+
+			return ref;
+		}
+
+		const queryConstraints: QueryConstraint[] = [
+			...where.map(({ field, operator, value }) => firestore.where(field, operator, value)),
+			...orderBy.map(({ direction, field }) => firestore.orderBy(field, direction)),
+			...cursors
+				.filter((cursor) => rest[cursor])
+				.map((cursor) => firestore[cursor](...resolveCursor(rest[cursor] as unknown[]))),
+		];
+
+		if (limit !== undefined) queryConstraints.push(firestore.limit(limit));
+		if (limitToLast !== undefined) queryConstraints.push(firestore.limitToLast(limitToLast));
+
+		return query(collection(this._firestore, pathParsed), ...queryConstraints);
+	}
+
+	/**
+	 * Replaces the field value placeholders, like `{ ".sv": "timestamp" }`, by the field values of the SDK.
+	 * @param value The value in which to replace the placeholders
+	 * @returns The value with the field values of the SDK
+	 */
+	protected resolveFieldValues(value: unknown): unknown {
+		if (!value || typeof value !== "object") return value;
+		if (Array.isArray(value)) return value.map((item) => this.resolveFieldValues(item));
+		// Dates, Timestamps, GeoPoints... are kept as is
+		if (Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+		if (".sv" in value) {
+			const placeholder = (value as FieldValuePlaceholder)[".sv"];
+			const admin = this.isAdmin(this._firestore);
+
+			if (Object.keys(value).length !== 1)
+				throw new FirestoreError("firestore/invalid-value", "A field value placeholder must only contain '.sv'!");
+
+			if (placeholder === "delete") return admin ? FieldValue.delete() : firestore.deleteField();
+			if (placeholder === "timestamp") return admin ? FieldValue.serverTimestamp() : firestore.serverTimestamp();
+
+			if (placeholder && typeof placeholder === "object") {
+				if ("increment" in placeholder && typeof placeholder.increment === "number")
+					return admin ? FieldValue.increment(placeholder.increment) : firestore.increment(placeholder.increment);
+				if ("arrayUnion" in placeholder && Array.isArray(placeholder.arrayUnion))
+					return admin
+						? FieldValue.arrayUnion(...placeholder.arrayUnion)
+						: firestore.arrayUnion(...placeholder.arrayUnion);
+				if ("arrayRemove" in placeholder && Array.isArray(placeholder.arrayRemove))
+					return admin
+						? FieldValue.arrayRemove(...placeholder.arrayRemove)
+						: firestore.arrayRemove(...placeholder.arrayRemove);
+			}
+
+			throw new FirestoreError(
+				"firestore/invalid-value",
+				`The field value placeholder must be "delete", "timestamp" or { "increment" | "arrayUnion" | "arrayRemove": ... }!`
+			);
+		}
+
+		return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, this.resolveFieldValues(child)]));
+	}
+
+	private restoreFirestore() {
+		if (!this.client.app || this.client.app === this._app) return;
+
+		this.getFirestore();
+	}
+
+	/**
+	 * Runs the update function in a transaction, re-run if the documents read are changed concurrently.
+	 * @param updateFunction The function reading then writing the documents
+	 * @returns The value returned by the update function
+	 */
+	public runTransaction<T>(updateFunction: (transaction: FirestoreTransaction) => Promise<T> | T): Promise<T> {
+		if (typeof updateFunction !== "function")
+			throw new FirestoreError("firestore/invalid-argument", "The updateFunction must be a function");
+
+		const resolve = (data: unknown) => this.resolveFieldValues(this.checkData(data)) as DocumentData;
+		const documentRef = (path: string) => this.documentRef(path);
+
+		return this.wrapErrors(
+			() => {
+				if (this.isAdmin(this._firestore)) {
+					return this._firestore.runTransaction(async (transaction) =>
+						updateFunction(new FirestoreTransaction(transaction, documentRef, resolve))
+					);
+				}
+
+				return firestore.runTransaction(this._firestore, async (transaction) =>
+					updateFunction(new FirestoreTransaction(transaction, documentRef, resolve))
+				);
+			},
+			{ method: "runTransaction" }
+		);
+	}
+
+	public async setDocument(path: string, data: DocumentData, options?: FirestoreSetOptions): Promise<void> {
+		const ref = this.documentRef(path);
+		const dataParsed = this.resolveFieldValues(this.checkData(data)) as DocumentData;
+		const optionsParsed = this.checkSetOptions(options);
+
+		await this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._firestore)) {
+					await (ref as AdminDocumentReference).set(dataParsed, optionsParsed);
+					return;
+				}
+
+				await firestore.setDoc(ref as firestore.DocumentReference, dataParsed, optionsParsed);
+			},
+			{ method: "setDocument", path: ref.path }
+		);
+	}
+
+	/**
+	 * Subscribes to the documents of the collection matching the Query constraints.
+	 * @param path The path of the collection
+	 * @param callback The function called with the documents and their changes
+	 * @param constraints The Query constraints
+	 * @param errorCallback The function called if the listener is cancelled, e.g. when the access is revoked
+	 * @returns The function to unsubscribe
+	 */
+	public subscribeCollection<T = DocumentData>(
+		path: string,
+		callback: QueryCallback<T>,
+		constraints?: FirestoreQueryConstraints,
+		errorCallback?: (error: Error) => void
+	): FirestoreUnsubscribe {
+		if (typeof callback !== "function")
+			throw new FirestoreError("firestore/invalid-argument", "The callback must be a function");
+
+		const ref = this.query(path, constraints);
+		const onError = (error: Error) => this.cancelSubscription(path, error, errorCallback);
+
+		if (ref instanceof AdminQuery) return ref.onSnapshot((snapshot) => callback(toQueryResult<T>(snapshot)), onError);
+
+		return onSnapshot(ref, (snapshot) => callback(toQueryResult<T>(snapshot)), onError);
+	}
+
+	/**
+	 * Subscribes to the document.
+	 * @param path The path of the document
+	 * @param callback The function called with the document each time it changes
+	 * @param errorCallback The function called if the listener is cancelled, e.g. when the access is revoked
+	 * @returns The function to unsubscribe
+	 */
+	public subscribeDocument<T = DocumentData>(
+		path: string,
+		callback: DocumentCallback<T>,
+		errorCallback?: (error: Error) => void
+	): FirestoreUnsubscribe {
+		if (typeof callback !== "function")
+			throw new FirestoreError("firestore/invalid-argument", "The callback must be a function");
+
+		const ref = this.documentRef(path);
+		const onError = (error: Error) => this.cancelSubscription(path, error, errorCallback);
+
+		if (this.isAdmin(this._firestore))
+			return (ref as AdminDocumentReference).onSnapshot((snapshot) => callback(toDocument<T>(snapshot)), onError);
+
+		return onSnapshot(ref as firestore.DocumentReference, (snapshot) => callback(toDocument<T>(snapshot)), onError);
+	}
+
+	/**
+	 * Updates the fields of the document, which must exist. The keys can be field paths, like `address.city`.
+	 * @param path The path of the document
+	 * @param data The fields to update
+	 */
+	public async updateDocument(path: string, data: DocumentData): Promise<void> {
+		const ref = this.documentRef(path);
+		const dataParsed = this.resolveFieldValues(this.checkData(data)) as DocumentData;
+
+		await this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._firestore)) {
+					await (ref as AdminDocumentReference).update(dataParsed);
+					return;
+				}
+
+				await firestore.updateDoc(ref as firestore.DocumentReference, dataParsed as firestore.UpdateData<DocumentData>);
+			},
+			{ method: "updateDocument", path: ref.path }
+		);
+	}
+
+	/**
+	 * Runs the query and converts the errors of the SDK, or of the server, to FirestoreError.
+	 * @param query The query to run
+	 * @param options The context of the errors
+	 * @returns The result of the query
+	 */
+	private async wrapErrors<T>(query: () => Promise<T>, options: FirebaseNodeJSErrorOptions): Promise<T> {
+		try {
+			return await query();
+		} catch (error) {
+			throw toFirestoreError(error, options);
+		}
+	}
+}
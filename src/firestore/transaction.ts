@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DocumentReference, SetOptions, Transaction, UpdateData } from "firebase/firestore";
+import {
+	DocumentReference as AdminDocumentReference,
+	SetOptions as AdminSetOptions,
+	Transaction as AdminTransaction,
+} from "firebase-admin/firestore";
+import { DocumentData, FirestoreDocument, FirestoreSetOptions } from "./types";
+import { toDocument } from "./utils";
+
+// The transactions of both SDKs have the same methods, so the client types are used for both
+type DocumentRef = (path: string) => AdminDocumentReference | DocumentReference;
+
+/**
+ * The transaction given to the update function of {@link Firestore.runTransaction}, whatever the SDK.
+ * The reads must be done before the writes.
+ */
+export class FirestoreTransaction {
+	constructor(
+		protected transaction: AdminTransaction | Transaction,
+		protected documentRef: DocumentRef,
+		protected resolve: (data: unknown) => DocumentData
+	) {}
+
+	public delete(path: string): this {
+		(this.transaction as Transaction).delete(this.documentRef(path) as DocumentReference);
+		return this;
+	}
+
+	public async get<T = DocumentData>(path: string): Promise<FirestoreDocument<T>> {
+		return toDocument<T>(await (this.transaction as Transaction).get(this.documentRef(path) as DocumentReference));
+	}
+
+	public set(path: string, data: DocumentData, options: FirestoreSetOptions = {}): this {
+		(this.transaction as Transaction).set(
+			this.documentRef(path) as DocumentReference,
+			this.resolve(data),
+			options as SetOptions & AdminSetOptions
+		);
+		return this;
+	}
+
+	public update(path: string, data: DocumentData): this {
+		(this.transaction as Transaction).update(
+			this.documentRef(path) as DocumentReference,
+			this.resolve(data) as UpdateData<DocumentData>
+		);
+		return this;
+	}
+}
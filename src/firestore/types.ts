@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface FirestoreEvents {
+	log: (message: string) => void;
+	"subscription-error": (event: FirestoreSubscriptionErrorEvent) => void;
+}
+
+/** The codes of the errors of Firestore */
+export type FirestoreErrorCode =
+	| "firestore/aborted"
+	| "firestore/already-exists"
+	| "firestore/cancelled"
+	| "firestore/data-loss"
+	| "firestore/deadline-exceeded"
+	| "firestore/failed-precondition"
+	| "firestore/internal"
+	| "firestore/invalid-argument"
+	| "firestore/invalid-batch"
+	| "firestore/invalid-emulator"
+	| "firestore/invalid-options"
+	| "firestore/invalid-path"
+	| "firestore/invalid-query"
+	| "firestore/invalid-value"
+	| "firestore/not-found"
+	| "firestore/not-initialized"
+	| "firestore/out-of-range"
+	| "firestore/permission-denied"
+	| "firestore/resource-exhausted"
+	| "firestore/unauthenticated"
+	| "firestore/unavailable"
+	| "firestore/unimplemented"
+	| "firestore/unknown";
+
+export interface FirestoreEmulatorOptions {
+	host: string;
+	port: number;
+}
+
+export interface FirestoreOptions {
+	/** Connects to the Firestore emulator. Default: the `FIRESTORE_EMULATOR_HOST` environment variable, if set */
+	emulator?: FirestoreEmulatorOptions;
+}
+
+export type DocumentData = Record<string, unknown>;
+
+/**
+ * The placeholder of a value resolved by the server, written as `{ ".sv": ... }` like in RTDB.
+ */
+export type FieldValuePlaceholder =
+	| { ".sv": "delete" }
+	| { ".sv": "timestamp" }
+	| { ".sv": { increment: number } }
+	| { ".sv": { arrayRemove: unknown[] } }
+	| { ".sv": { arrayUnion: unknown[] } };
+
+export interface FirestoreDocument<T = DocumentData> {
+	id: string;
+	/** The path of the document, e.g. `users/alan` */
+	path: string;
+	exists: boolean;
+	/** The data of the document, `undefined` if it does not exist */
+	data: T | undefined;
+}
+
+export interface FirestoreDocumentChange<T = DocumentData> {
+	type: "added" | "modified" | "removed";
+	document: FirestoreDocument<T>;
+	/** The index of the document before the change, -1 if added */
+	oldIndex: number;
+	/** The index of the document after the change, -1 if removed */
+	newIndex: number;
+}
+
+export interface FirestoreQueryResult<T = DocumentData> {
+	documents: FirestoreDocument<T>[];
+	/** The changes since the previous result, for the snapshot listeners */
+	changes: FirestoreDocumentChange<T>[];
+	empty: boolean;
+	size: number;
+}
+
+export enum WhereOperatorMap {
+	"<",
+	"<=",
+	"==",
+	"!=",
+	">=",
+	">",
+	"array-contains",
+	"array-contains-any",
+	"in",
+	"not-in",
+}
+
+export type WhereOperator = keyof typeof WhereOperatorMap;
+
+export interface WhereConstraint {
+	field: string;
+	operator: WhereOperator;
+	value: unknown;
+}
+
+export interface OrderByConstraint {
+	field: string;
+	/** Default: `asc` */
+	direction?: "asc" | "desc";
+}
+
+export interface FirestoreQueryConstraints {
+	where?: WhereConstraint[];
+	orderBy?: OrderByConstraint[];
+	limit?: number;
+	limitToLast?: number;
+	/** The values of the `orderBy` fields from which the results start, included */
+	startAt?: unknown[];
+	/** The values of the `orderBy` fields after which the results start */
+	startAfter?: unknown[];
+	/** The values of the `orderBy` fields at which the results end, included */
+	endAt?: unknown[];
+	/** The values of the `orderBy` fields before which the results end */
+	endBefore?: unknown[];
+}
+
+export interface FirestoreSetOptions {
+	/** Merges the data into the existing document instead of replacing it */
+	merge?: boolean;
+	/** Merges only these fields into the existing document */
+	mergeFields?: string[];
+}
+
+export type BatchOperation =
+	| { type: "delete"; path: string }
+	| { type: "set"; path: string; data: DocumentData; options?: FirestoreSetOptions }
+	| { type: "update"; path: string; data: DocumentData };
+
+export type DocumentCallback<T = DocumentData> = (document: FirestoreDocument<T>) => void;
+
+export type QueryCallback<T = DocumentData> = (result: FirestoreQueryResult<T>) => void;
+
+export type FirestoreUnsubscribe = () => void;
+
+export interface FirestoreSubscriptionErrorEvent {
+	path: string;
+	/** The code of the error, e.g. `firestore/permission-denied` */
+	code: string;
+	error: Error;
+}
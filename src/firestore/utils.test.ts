@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import { FirebaseError } from "firebase/app";
+import { FirestoreError } from "./firestore-error";
+import { toFirestoreError } from "./utils";
+
+describe("toFirestoreError", () => {
+	it("converts the code of the client SDK", () => {
+		// The FirestoreError of the client SDK is a FirebaseError with the code of gRPC named
+		const cause = new FirebaseError("permission-denied", "Missing or insufficient permissions.");
+		const error = toFirestoreError(cause, { method: "getDocument", path: "users/alice" });
+
+		assert.ok(error instanceof FirestoreError);
+		assert.equal(error.code, "firestore/permission-denied");
+		assert.equal(error.message, cause.message);
+		assert.equal(error.cause, cause);
+		assert.equal(error.method, "getDocument");
+		assert.equal(error.path, "users/alice");
+	});
+
+	it("converts the gRPC status of the admin SDK", () => {
+		const cause = Object.assign(new Error("5 NOT_FOUND: No document to update"), { code: 5, details: "" });
+		const error = toFirestoreError(cause);
+
+		assert.ok(error instanceof FirestoreError);
+		assert.equal(error.code, "firestore/not-found");
+		assert.equal(error.cause, cause);
+	});
+
+	it("keeps the other errors as is", () => {
+		const errors = [
+			new FirestoreError("firestore/invalid-path", "The path must be a string!"),
+			Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" }),
+			Object.assign(new Error("Not from Firestore"), { code: "permission-denied" }),
+			Object.assign(new Error("Unknown status"), { code: 42 }),
+			new TypeError("updateFunction is not a function"),
+		];
+
+		for (const error of errors) assert.equal(toFirestoreError(error), error);
+	});
+});
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DocumentSnapshot, QuerySnapshot } from "firebase/firestore";
+import {
+	DocumentSnapshot as AdminDocumentSnapshot,
+	QuerySnapshot as AdminQuerySnapshot,
+} from "firebase-admin/firestore";
+import { FirestoreError } from "./firestore-error";
+import { DocumentData, FirestoreDocument, FirestoreErrorCode, FirestoreQueryResult } from "./types";
+import { isFirebaseError } from "../client";
+import { FirebaseNodeJSError, FirebaseNodeJSErrorOptions } from "../utils";
+
+/** The status codes of gRPC, thrown as is by the admin SDK, with their name used by the client SDK */
+const grpcCodes: Record<number, string> = {
+	1: "cancelled",
+	2: "unknown",
+	3: "invalid-argument",
+	4: "deadline-exceeded",
+	5: "not-found",
+	6: "already-exists",
+	7: "permission-denied",
+	8: "resource-exhausted",
+	9: "failed-precondition",
+	10: "aborted",
+	11: "out-of-range",
+	12: "unimplemented",
+	13: "internal",
+	14: "unavailable",
+	15: "data-loss",
+	16: "unauthenticated",
+};
+
+/**
+ * Converts the snapshot, admin or client, to a plain document.
+ * @param snapshot The snapshot of the document
+ * @returns The document
+ */
+function toDocument<T = DocumentData>(snapshot: AdminDocumentSnapshot | DocumentSnapshot): FirestoreDocument<T> {
+	// `exists` is a property for the admin SDK and a method for the client one
+	const exists = typeof snapshot.exists === "function" ? snapshot.exists() : snapshot.exists;
+
+	return { id: snapshot.id, path: snapshot.ref.path, exists, data: snapshot.data() as T | undefined };
+}
+
+/**
+ * Converts the snapshot of a query, admin or client, to plain documents.
+ * @param snapshot The snapshot of the query
+ * @returns The documents and their changes since the previous snapshot
+ */
+function toQueryResult<T = DocumentData>(snapshot: AdminQuerySnapshot | QuerySnapshot): FirestoreQueryResult<T> {
+	const changes = (snapshot.docChanges() as ReturnType<QuerySnapshot["docChanges"]>).map(
+		({ doc, newIndex, oldIndex, type }) => ({ type, document: toDocument<T>(doc), oldIndex, newIndex })
+	);
+
+	return {
+		documents: (snapshot.docs as DocumentSnapshot[]).map((doc) => toDocument<T>(doc)),
+		changes,
+		empty: snapshot.empty,
+		size: snapshot.size,
+	};
+}
+
+/**
+ * Wraps the error of the SDK, or of the server, in a FirestoreError with the code converted and the original error as cause.
+ * The client SDK names the code, e.g. `permission-denied`, while the admin SDK throws the gRPC status, e.g. `7`.
+ * @param error The error thrown
+ * @param options The context of the error
+ * @returns The FirestoreError, or the error as is if it does not come from the database
+ */
+function toFirestoreError<E>(error: E, options?: FirebaseNodeJSErrorOptions): E | FirestoreError {
+	if (error instanceof FirebaseNodeJSError || !(error instanceof Error) || !("code" in error)) return error;
+
+	const { code } = error;
+	const reason =
+		typeof code === "number"
+			? grpcCodes[code]
+			: typeof code === "string" && isFirebaseError(error)
+			? code.replace(/^firestore\//, "")
+			: undefined;
+
+	if (!reason || !Object.values(grpcCodes).includes(reason)) return error;
+
+	return new FirestoreError(`firestore/${reason}` as FirestoreErrorCode, error.message, { ...options, cause: error });
+}
+
+export { toDocument, toFirestoreError, toQueryResult };
@@ -17,6 +17,10 @@
 
 export * from "./client";
 export * from "./connection/types";
+export * from "./firestore";
 export * from "./logger";
+export * from "./mirror";
+export * from "./presence";
 export * from "./rtdb";
+export * from "./storage";
 export * from "./utils";
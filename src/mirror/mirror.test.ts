@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "node:assert";
+import { EventEmitter } from "node:events";
+import { describe, it } from "node:test";
+import { setImmediate as tick } from "node:timers/promises";
+import { Mirror } from "./mirror";
+import { ConnectionState } from "../connection";
+import { Listener, RTDB, SubscriptionErrorCallback } from "../rtdb";
+
+type Callback = (snapshot: unknown) => void;
+
+/** Stands for RTDB, the callbacks of the subscriptions being called by the tests */
+class FakeDatabase extends EventEmitter {
+	public readonly client = new EventEmitter();
+	public callbacks = new Map<Listener, Callback>();
+	public errorCallbacks: SubscriptionErrorCallback[] = [];
+
+	public get connectionState() {
+		return ConnectionState.CONNECTED;
+	}
+
+	public get untyped() {
+		return this;
+	}
+
+	public cancel(error: Error) {
+		for (const errorCallback of this.errorCallbacks) errorCallback(error);
+	}
+
+	public doSubscriptionQuery(
+		listener: Listener,
+		callback: Callback,
+		_path: string,
+		_constraints: unknown,
+		errorCallback: SubscriptionErrorCallback
+	) {
+		this.callbacks.set(listener, callback);
+		this.errorCallbacks.push(errorCallback);
+		return () => undefined;
+	}
+
+	public doUnSubscriptionQuery(listener: Listener) {
+		this.callbacks.delete(listener);
+	}
+
+	public load(value: unknown) {
+		this.callbacks.get("value")?.({ exportVal: () => value });
+	}
+}
+
+Object.setPrototypeOf(FakeDatabase.prototype, RTDB.prototype);
+
+const createMirror = () => {
+	const database = new FakeDatabase();
+	const mirror = new Mirror(database as unknown as RTDB, { path: "users" });
+
+	return { database, mirror };
+};
+
+describe("Mirror", () => {
+	it("resolves ready once loaded", async () => {
+		const { database, mirror } = createMirror();
+		const ready = mirror.start();
+
+		database.load({ alice: { age: 30 } });
+
+		await ready;
+
+		assert.deepEqual(mirror.get("alice"), { age: 30 });
+		assert.equal(mirror.stale, false);
+	});
+
+	it("rejects ready if denied before being loaded", async () => {
+		const { database, mirror } = createMirror();
+		const ready = mirror.start();
+		const error = new Error("Permission denied");
+
+		database.cancel(error);
+
+		await assert.rejects(ready, error);
+		assert.equal(mirror.stale, true);
+	});
+
+	it("does not leave an unhandled rejection if ready is not awaited", async () => {
+		const { database, mirror } = createMirror();
+		const unhandled: unknown[] = [];
+		const onUnhandled = (reason: unknown) => unhandled.push(reason);
+
+		process.on("unhandledRejection", onUnhandled);
+
+		try {
+			void mirror.start();
+			database.cancel(new Error("Permission denied"));
+
+			await tick();
+			await tick();
+
+			assert.deepEqual(unhandled, []);
+		} finally {
+			process.off("unhandledRejection", onUnhandled);
+		}
+	});
+
+	it("emits the errors once loaded as an error event, once", async () => {
+		const { database, mirror } = createMirror();
+		const errors: Error[] = [];
+		const error = new Error("Permission denied");
+
+		mirror.on("error", (error) => errors.push(error));
+
+		const ready = mirror.start();
+
+		database.load({});
+		database.cancel(error);
+
+		await ready;
+
+		assert.deepEqual(errors, [error]);
+		assert.equal(mirror.stale, true);
+	});
+});
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TypedEmitter } from "tiny-typed-emitter";
+import { MirrorError } from "./mirror-error";
+import { MirrorChangeType, MirrorEntry, MirrorEvents, MirrorOptions } from "./types";
+import { AdminClientEvents } from "../client";
+import { ConnectionState } from "../connection";
+import { BothDataSnapshot, Listener, parseQueryString, QueryConstraintType, RTDB, Unsubscription } from "../rtdb";
+import { isNode, queryChildren, stripPriorities } from "../rtdb/ordering";
+
+/**
+ * Keeps an in-memory copy of a subtree up to date, to read it synchronously and query it locally.
+ *
+ * The copy is stale until loaded and while the connection is lost (`DISCONNECTED` state).
+ */
+export class Mirror<Schema = unknown> extends TypedEmitter<MirrorEvents> {
+	private _ready: Promise<void>;
+	private _stale = true;
+	private _started = false;
+	/** Whether the listeners have been cancelled since the start, they are all cancelled together */
+	private cancelled = false;
+	private loading = false;
+	private rejectReady?: (error: Error) => void;
+	private resolveReady?: () => void;
+	private subscriptions = new Map<Listener, Unsubscription>();
+	/** The subtree in the export format, priorities included */
+	private tree: unknown = null;
+	/** The database without its schema, so that any path can be mirrored */
+	protected database: RTDB;
+	public readonly path: string;
+
+	constructor(database: RTDB<Schema>, protected options: MirrorOptions) {
+		super();
+
+		if (!(database instanceof RTDB))
+			throw new MirrorError("mirror/invalid-argument", "Mirror must be instantiated with RTDB as parameter");
+		if (!options || typeof options !== "object")
+			throw new MirrorError("mirror/invalid-options", "Mirror Options must be an object!");
+		if (typeof options.path !== "string") throw new MirrorError("mirror/invalid-path", "The path must be a string!");
+		if (options.constraints !== undefined && !["object", "string"].includes(typeof options.constraints))
+			throw new MirrorError("mirror/invalid-query", "The constraints must be an object or a query string!");
+
+		this.database = database.untyped;
+		this.path = options.path;
+		this._ready = new Promise((resolve, reject) => {
+			this.resolveReady = resolve;
+			this.rejectReady = reject;
+		});
+
+		// Not to be an unhandled rejection if nobody awaits it
+		this._ready.catch(() => undefined);
+	}
+
+	/**
+	 * Resolves once the subtree has been loaded for the first time, rejects if the subscription has been denied before.
+	 * The later errors are emitted as `error` events.
+	 */
+	public get ready(): Promise<void> {
+		return this._ready;
+	}
+
+	public get stale(): boolean {
+		return this._stale;
+	}
+
+	public get started(): boolean {
+		return this._started;
+	}
+
+	// Arrow functions to be able to remove these listeners
+	private onChildAdded = (snapshot: BothDataSnapshot) => this.applyChange("added", snapshot);
+
+	private onChildChanged = (snapshot: BothDataSnapshot) => this.applyChange("changed", snapshot);
+
+	private onChildRemoved = (snapshot: BothDataSnapshot) => this.applyChange("removed", snapshot);
+
+	private onConnected = () => {
+		if (!this.loading && !this.cancelled) this.setStale(false);
+	};
+
+	private onDeletingClient = () => this.stop();
+
+	private onDisconnected = () => this.setStale(true);
+
+	private onError = (error: Error) => {
+		if (this.cancelled) return;
+
+		this.cancelled = true;
+		this.database.emit("log", `Unable to mirror "${this.path}": ${error.message}`);
+		this.setStale(true);
+
+		if (this.loading) {
+			this.loading = false;
+			this.rejectReady?.(error);
+		} else if (this.listenerCount("error")) {
+			this.emit("error", error);
+		}
+	};
+
+	/** Loads the whole subtree once, the child events keep it up to date afterwards */
+	private onValue = (snapshot: BothDataSnapshot) => {
+		if (!this.loading) return;
+
+		this.loading = false;
+		this.tree = snapshot.exportVal();
+		this.unsubscribe("value");
+		this.setStale(this.database.connectionState === ConnectionState.DISCONNECTED);
+		this.resolveReady?.();
+		this.emit("ready");
+	};
+
+	private applyChange(type: MirrorChangeType, snapshot: BothDataSnapshot) {
+		const key = snapshot.key as string;
+		const node = isNode(this.tree) && !(".value" in this.tree) ? this.tree : {};
+		const previousValue = stripPriorities(node[key]);
+
+		if (type === "removed") delete node[key];
+		else node[key] = snapshot.exportVal();
+
+		this.tree = node;
+		this.emit("change", { type, key, value: stripPriorities(node[key]), previousValue });
+	}
+
+	/**
+	 * Gets the value at the path relative to the mirrored path, from memory.
+	 * @param path The path relative to the mirrored path, the whole subtree if omitted
+	 * @returns The value, `null` if it does not exist
+	 */
+	public get(path?: string): unknown {
+		return stripPriorities(this.getNode(path));
+	}
+
+	private getNode(path = ""): unknown {
+		if (typeof path !== "string") throw new MirrorError("mirror/invalid-path", "The path must be a string!");
+
+		return path
+			.split("/")
+			.filter(Boolean)
+			.reduce<unknown>((node, segment) => (isNode(node) ? node[segment] : null), this.tree);
+	}
+
+	/**
+	 * Queries the children at the path from memory, with the same semantics as the Query constraints of the server.
+	 * @param constraints The Query constraints
+	 * @param path The path relative to the mirrored path, the mirrored path itself if omitted
+	 * @returns The children matching, ordered
+	 */
+	public query(constraints: QueryConstraintType | string = {}, path?: string): MirrorEntry[] {
+		const constraintsParsed = typeof constraints === "string" ? parseQueryString(constraints) : constraints;
+		const node = this.getNode(path);
+
+		return queryChildren(node, constraintsParsed).map((key) => ({
+			key,
+			value: stripPriorities((node as Record<string, unknown>)[key]),
+		}));
+	}
+
+	private setStale(stale: boolean) {
+		if (this._stale === stale) return;
+
+		this._stale = stale;
+		this.emit("stale", stale);
+	}
+
+	/**
+	 * Starts mirroring the subtree.
+	 * @returns A promise resolved once the subtree has been loaded
+	 */
+	public start(): Promise<void> {
+		if (this._started) return this._ready;
+
+		this._started = true;
+		this.cancelled = false;
+		this.loading = true;
+		this.database.on("connected", this.onConnected);
+		this.database.on("disconnected", this.onDisconnected);
+		(this.database.client as TypedEmitter<AdminClientEvents>).on("deleting-client", this.onDeletingClient);
+
+		this.subscribe("child_added", this.onChildAdded);
+		this.subscribe("child_changed", this.onChildChanged);
+		this.subscribe("child_removed", this.onChildRemoved);
+		this.subscribe("value", this.onValue);
+
+		// The value may have been served from the cache during the subscription
+		if (!this.loading) this.unsubscribe("value");
+
+		return this._ready;
+	}
+
+	/**
+	 * Stops mirroring the subtree, the copy in memory is kept but becomes stale.
+	 */
+	public stop(): void {
+		if (!this._started) return;
+
+		this._started = false;
+		this.loading = false;
+		this.database.off("connected", this.onConnected);
+		this.database.off("disconnected", this.onDisconnected);
+		(this.database.client as TypedEmitter<AdminClientEvents>).off("deleting-client", this.onDeletingClient);
+
+		for (const listener of this.subscriptions.keys()) {
+			this.unsubscribe(listener);
+		}
+
+		this.setStale(true);
+	}
+
+	private subscribe(listener: Listener, callback: (snapshot: BothDataSnapshot) => void) {
+		const unsubscription = this.database.doSubscriptionQuery(
+			listener,
+			callback,
+			this.path,
+			this.options.constraints,
+			this.onError
+		);
+
+		this.subscriptions.set(listener, unsubscription);
+	}
+
+	private unsubscribe(listener: Listener) {
+		const unsubscription = this.subscriptions.get(listener);
+
+		if (!unsubscription) return;
+
+		this.subscriptions.delete(listener);
+		this.database.doUnSubscriptionQuery(listener, unsubscription, this.path);
+	}
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { QueryConstraintType } from "../rtdb";
+
+export type MirrorChangeType = "added" | "changed" | "removed";
+
+export interface MirrorChangeEvent {
+	type: MirrorChangeType;
+	/** The key of the child, directly under the mirrored path */
+	key: string;
+	/** The value of the child, `null` if removed */
+	value: unknown;
+	/** The value of the child before the change, `null` if added */
+	previousValue: unknown;
+}
+
+/** The codes of the errors of Mirror */
+export type MirrorErrorCode =
+	| "mirror/invalid-argument"
+	| "mirror/invalid-options"
+	| "mirror/invalid-path"
+	| "mirror/invalid-query";
+
+export interface MirrorEntry {
+	key: string;
+	value: unknown;
+}
+
+export interface MirrorEvents {
+	change: (event: MirrorChangeEvent) => void;
+	/** The subscription has been denied once loaded, e.g. the access has been revoked */
+	error: (error: Error) => void;
+	ready: () => void;
+	stale: (stale: boolean) => void;
+}
+
+export interface MirrorOptions {
+	/** The Query constraints applied by the server, to mirror only a part of the children */
+	constraints?: QueryConstraintType | string;
+	/** The path of the subtree to mirror */
+	path: string;
+}
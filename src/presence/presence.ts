@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { randomBytes } from "crypto";
+import { TypedEmitter } from "tiny-typed-emitter";
+import { PresenceError } from "./presence-error";
+import { PresenceOptions, PresenceUser } from "./types";
+import { AdminClientEvents } from "../client";
+import { ConnectionState } from "../connection";
+import { RTDB, Unsubscription } from "../rtdb";
+
+/**
+ * Registers a session of the user as online while the client is connected.
+ *
+ * Layout under the path: `<userId>/sessions/<sessionId>` for each online session, removed by the server
+ * when the connection is lost, and `<userId>/lastSeen` set at the same time.
+ */
+export class Presence<Schema = unknown> {
+	private _started = false;
+	private subscriptions: Unsubscription[] = [];
+	/** The database without its schema, the presence path being outside of it */
+	protected database: RTDB;
+	public readonly path: string;
+	public readonly sessionId: string;
+	public readonly userId: string;
+
+	constructor(database: RTDB<Schema>, protected options: PresenceOptions) {
+		if (!(database instanceof RTDB))
+			throw new PresenceError("presence/invalid-argument", "Presence must be instantiated with RTDB as parameter");
+		if (!options || typeof options !== "object")
+			throw new PresenceError("presence/invalid-options", "Presence Options must be an object!");
+		if (typeof options.userId !== "string" || !options.userId)
+			throw new PresenceError("presence/invalid-options", "The userId must be a non-empty string!");
+		if (options.sessionId !== undefined && (typeof options.sessionId !== "string" || !options.sessionId))
+			throw new PresenceError("presence/invalid-options", "The sessionId must be a non-empty string!");
+		if (options.sessionData !== undefined && (!options.sessionData || typeof options.sessionData !== "object"))
+			throw new PresenceError("presence/invalid-options", "The sessionData must be an object!");
+
+		this.database = database.untyped;
+		this.path = options.path ?? "presence";
+		this.sessionId = options.sessionId ?? randomBytes(8).toString("hex");
+		this.userId = options.userId;
+	}
+
+	public get started(): boolean {
+		return this._started;
+	}
+
+	private get lastSeenPath(): string {
+		return `${this.path}/${this.userId}/lastSeen`;
+	}
+
+	private get sessionPath(): string {
+		return `${this.path}/${this.userId}/sessions/${this.sessionId}`;
+	}
+
+	// Arrow functions to be able to remove these listeners
+	private onConnected = () => {
+		this.register().catch((error: Error) =>
+			this.database.emit("log", `Unable to register the presence of "${this.userId}": ${error.message}`)
+		);
+	};
+
+	private onDeletingClient = () => this.detach();
+
+	private detach() {
+		this._started = false;
+		this.database.off("connected", this.onConnected);
+		(this.database.client as TypedEmitter<AdminClientEvents>).off("deleting-client", this.onDeletingClient);
+
+		for (const unsubscription of this.subscriptions) {
+			this.database.doUnSubscriptionQuery("value", unsubscription, this.path);
+		}
+
+		this.subscriptions = [];
+	}
+
+	/**
+	 * Arms the disconnect handlers then marks the session online. The handlers are cleared by the server
+	 * once they have run, so this is done again after each reconnection.
+	 */
+	private async register() {
+		await this.database.setOnDisconnectQuery("remove", this.sessionPath);
+		await this.database.setOnDisconnectQuery("set", this.lastSeenPath, { ".sv": "timestamp" });
+		await this.database.doWriteQuery("set", this.sessionPath, {
+			...this.options.sessionData,
+			online: true,
+			connectedAt: { ".sv": "timestamp" },
+		});
+	}
+
+	/**
+	 * Starts registering the session, now if connected and after each reconnection.
+	 */
+	public async start(): Promise<void> {
+		if (this._started) return;
+
+		this._started = true;
+		this.database.on("connected", this.onConnected);
+		(this.database.client as TypedEmitter<AdminClientEvents>).on("deleting-client", this.onDeletingClient);
+
+		if (this.database.connectionState === ConnectionState.CONNECTED) await this.register();
+	}
+
+	/**
+	 * Stops registering the session and marks it offline.
+	 */
+	public async stop(): Promise<void> {
+		if (!this._started) return;
+
+		this.detach();
+
+		await this.database.setOnDisconnectQuery("cancel", this.sessionPath);
+		await this.database.setOnDisconnectQuery("cancel", this.lastSeenPath);
+		await this.database.doMultiPathUpdateQuery(
+			{ [`sessions/${this.sessionId}`]: null, lastSeen: { ".sv": "timestamp" } },
+			`${this.path}/${this.userId}`
+		);
+	}
+
+	/**
+	 * Subscribes to the users registered under the path, which yields the list whenever a session changes.
+	 * @param callback The function called with the users
+	 * @returns The unsubscription callback
+	 */
+	public subscribeOnline(callback: (users: PresenceUser[]) => void): Unsubscription {
+		if (typeof callback !== "function")
+			throw new PresenceError("presence/invalid-argument", "The callback must be a function");
+
+		const unsubscription = this.database.doSubscriptionQuery(
+			"value",
+			(snapshot) => {
+				const users: PresenceUser[] = [];
+
+				snapshot.forEach((child: typeof snapshot) => {
+					const { lastSeen, sessions = {} } = child.val() ?? {};
+					users.push({ userId: child.key as string, lastSeen, online: !!Object.keys(sessions).length, sessions });
+				});
+
+				callback(users);
+			},
+			this.path
+		);
+
+		this.subscriptions.push(unsubscription);
+
+		return unsubscription;
+	}
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** The codes of the errors of Presence */
+export type PresenceErrorCode = "presence/invalid-argument" | "presence/invalid-options";
+
+export interface PresenceOptions {
+	/** The path under which the users are registered. Default: `presence` */
+	path?: string;
+	/** The ID of the session, several sessions can be registered for the same user. Default: a random ID */
+	sessionId?: string;
+	/** Additional data stored with the session, like the device name */
+	sessionData?: Record<string, unknown>;
+	/** The ID of the user, e.g. the UID of the authenticated user */
+	userId: string;
+}
+
+export interface PresenceSession {
+	/** When the session has been connected for the last time, in server time */
+	connectedAt: number;
+	online: true;
+	[key: string]: unknown;
+}
+
+export interface PresenceUser {
+	userId: string;
+	/** When the last session of the user has been disconnected, in server time */
+	lastSeen?: number;
+	online: boolean;
+	sessions: Record<string, PresenceSession>;
+}
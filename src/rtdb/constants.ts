@@ -0,0 +1,43 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** The maximum depth of a node, path included */
+const MAX_DEPTH = 32;
+
+/** The maximum length of a key, in UTF-8 bytes */
+const MAX_KEY_BYTES = 768;
+
+/** The maximum length of a string value, in UTF-8 bytes */
+const MAX_STRING_BYTES = 10 * 1024 * 1024;
+
+/** The maximum size of a single write from the SDKs, in UTF-8 bytes of JSON */
+const MAX_WRITE_BYTES = 16 * 1024 * 1024;
+
+/** The parameters of the REST API that are not query constraints */
+const restParametersIgnored = [
+	"access_token",
+	"auth",
+	"callback",
+	"download",
+	"format",
+	"print",
+	"shallow",
+	"timeout",
+	"writeSizeLimit",
+];
+
+export { restParametersIgnored, MAX_DEPTH, MAX_KEY_BYTES, MAX_STRING_BYTES, MAX_WRITE_BYTES };
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Delivery } from "./delivery";
+import { SubscriptionEvent } from "./types";
+
+type Snapshot = { key: string; val: number };
+
+describe("Delivery", () => {
+	describe("throttle", () => {
+		it("delivers at most limit events per interval", async () => {
+			const interval = 100;
+			const times: number[] = [];
+			const delivery = new Delivery<Snapshot>(() => times.push(Date.now()), { mode: "throttle", interval, limit: 2 });
+
+			for (let i = 0; i < 10; i++) delivery.push({ key: `child${i}`, val: i });
+
+			await sleep(interval * 6);
+
+			assert.equal(times.length, 10);
+
+			// Any span shorter than the interval contains at most `limit` events
+			times.forEach((time, index) => {
+				const inWindow = times.slice(index).filter((other) => other - time < interval - 10);
+				assert.ok(inWindow.length <= 2, `${inWindow.length} events delivered within an interval`);
+			});
+		});
+
+		it("keeps the last event of each child", async () => {
+			const values: number[] = [];
+			const delivery = new Delivery<Snapshot>((snapshot: Snapshot) => values.push(snapshot.val), {
+				mode: "throttle",
+				interval: 50,
+				limit: 1,
+			});
+
+			delivery.push({ key: "a", val: 1 });
+			delivery.push({ key: "a", val: 2 });
+			delivery.push({ key: "b", val: 3 });
+			delivery.push({ key: "a", val: 4 });
+
+			await sleep(200);
+
+			assert.deepEqual(values, [1, 3, 4]);
+		});
+
+		it("delivers nothing more once cancelled", async () => {
+			const values: number[] = [];
+			const delivery = new Delivery<Snapshot>((snapshot: Snapshot) => values.push(snapshot.val), {
+				mode: "throttle",
+				interval: 50,
+				limit: 1,
+			});
+
+			delivery.push({ key: "a", val: 1 });
+			delivery.push({ key: "b", val: 2 });
+			delivery.cancel();
+
+			await sleep(100);
+
+			assert.deepEqual(values, [1]);
+		});
+	});
+
+	describe("debounce", () => {
+		it("delivers the last event once quiet", async () => {
+			const values: number[] = [];
+			const delivery = new Delivery<Snapshot>((snapshot: Snapshot) => values.push(snapshot.val), {
+				mode: "debounce",
+				wait: 30,
+			});
+
+			delivery.push({ key: "a", val: 1 });
+			delivery.push({ key: "a", val: 2 });
+
+			assert.deepEqual(values, []);
+
+			await sleep(80);
+
+			assert.deepEqual(values, [2]);
+		});
+	});
+
+	describe("batch", () => {
+		it("delivers the events once size is reached", () => {
+			const batches: number[][] = [];
+			const delivery = new Delivery<Snapshot>(
+				(events: SubscriptionEvent<Snapshot>[]) => batches.push(events.map(({ snapshot }) => snapshot.val)),
+				{
+					mode: "batch",
+					size: 2,
+				}
+			);
+
+			delivery.push({ key: "a", val: 1 });
+			delivery.push({ key: "a", val: 2 });
+			delivery.push({ key: "b", val: 3 });
+
+			assert.deepEqual(batches, [[1, 2]]);
+		});
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+	BatchCallback,
+	BothDataSnapshot,
+	DeliveryOptions,
+	SubscriptionCallback,
+	SubscriptionEvent,
+	ThrottleDelivery,
+} from "./types";
+
+/**
+ * Delivers the events of a subscription to its callback according to the delivery mode:
+ * - `debounce`: the last event once no event has been received for `wait` milliseconds
+ * - `throttle`: at most `limit` events per `interval`, the next ones being delivered in the following intervals
+ * - `batch`: the events grouped in an array once `size` events are collected or `interval` has elapsed
+ *
+ * With `debounce` and `throttle`, the last event is kept per child key: a `value` listener receives
+ * the last value only, while a `child_*` listener receives the last event of each child changed.
+ */
+export class Delivery<S = BothDataSnapshot> {
+	private pending: SubscriptionEvent<S>[] = [];
+	private timeoutID: ReturnType<typeof setTimeout> | undefined;
+	private windowCount = 0;
+	private windowStart = 0;
+
+	constructor(protected callback: SubscriptionCallback<S> | BatchCallback<S>, protected options: DeliveryOptions) {}
+
+	/**
+	 * Stops the delivery without delivering the pending events.
+	 */
+	public cancel(): void {
+		if (this.timeoutID) clearTimeout(this.timeoutID);
+
+		this.timeoutID = undefined;
+		this.pending = [];
+	}
+
+	/**
+	 * Opens a new interval with the pending events, at most `limit` of them, the next ones waiting for the following one.
+	 */
+	private deliverWindow() {
+		const { interval, limit } = this.options as ThrottleDelivery;
+		const events = this.pending.splice(0, limit);
+
+		this.windowStart = Date.now();
+		this.windowCount = events.length;
+
+		if (this.pending.length) this.schedule(interval, false, () => this.deliverWindow());
+
+		for (const { previousChildName, snapshot } of events) {
+			(this.callback as SubscriptionCallback<S>)(snapshot, previousChildName);
+		}
+	}
+
+	/**
+	 * Delivers the pending events now.
+	 */
+	public flush(): void {
+		if (this.timeoutID) clearTimeout(this.timeoutID);
+
+		this.timeoutID = undefined;
+
+		if (!this.pending.length) return;
+
+		const events = this.pending;
+
+		this.pending = [];
+
+		if (this.options.mode === "batch") {
+			(this.callback as BatchCallback<S>)(events);
+		} else {
+			for (const { previousChildName, snapshot } of events) {
+				(this.callback as SubscriptionCallback<S>)(snapshot, previousChildName);
+			}
+		}
+	}
+
+	/**
+	 * Keeps the event in place of the pending event of the same child.
+	 * @param event The event to keep
+	 */
+	private keepLast(event: SubscriptionEvent<S>) {
+		const keyOf = (snapshot: S) => (snapshot as { key?: string | null }).key;
+		const key = keyOf(event.snapshot);
+
+		this.pending = this.pending.filter((pending) => keyOf(pending.snapshot) !== key);
+		this.pending.push(event);
+	}
+
+	public push(snapshot: S, previousChildName?: string | null): void {
+		const event = { snapshot, previousChildName };
+
+		switch (this.options.mode) {
+			case "debounce":
+				this.keepLast(event);
+				this.schedule(this.options.wait, true);
+				break;
+			case "throttle": {
+				const { interval, limit } = this.options;
+				const now = Date.now();
+
+				if (now - this.windowStart >= interval) {
+					this.windowStart = now;
+					this.windowCount = 0;
+				}
+
+				if (this.windowCount < limit && !this.pending.length) {
+					this.windowCount++;
+					(this.callback as SubscriptionCallback<S>)(snapshot, previousChildName);
+				} else {
+					this.keepLast(event);
+					this.schedule(this.windowStart + interval - now, false, () => this.deliverWindow());
+				}
+				break;
+			}
+			case "batch": {
+				const { interval, size } = this.options;
+
+				this.pending.push(event);
+
+				if (size && this.pending.length >= size) {
+					this.flush();
+				} else if (interval) {
+					this.schedule(interval, false);
+				}
+				break;
+			}
+		}
+	}
+
+	private schedule(delay: number, reset: boolean, deliver: () => void = () => this.flush()) {
+		if (this.timeoutID && !reset) return;
+		if (this.timeoutID) clearTimeout(this.timeoutID);
+
+		this.timeoutID = setTimeout(() => {
+			this.timeoutID = undefined;
+			deliver();
+		}, Math.max(delay, 0));
+	}
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ClientRequest, IncomingMessage, request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { RTDBRestError } from "./rtdb-error";
+
+const MAX_REDIRECTS = 5;
+
+export interface EventStreamHandlers {
+	/** Called once the server has accepted the stream */
+	onOpen: () => void;
+	onEvent: (event: string, data: string) => void;
+	/** Called once the stream is closed, by the server or because of an error, but not by `close` */
+	onClose: (error?: Error) => void;
+}
+
+/**
+ * Reads the Server-Sent Events (`text/event-stream`) sent by the server at the URL.
+ */
+export class EventStream {
+	private closed = false;
+	private request?: ClientRequest;
+	private response?: IncomingMessage;
+
+	constructor(protected url: string, protected handlers: EventStreamHandlers) {}
+
+	public close(): void {
+		this.closed = true;
+		this.request?.destroy();
+		this.response?.destroy();
+		this.request = undefined;
+		this.response = undefined;
+	}
+
+	public open(): void {
+		this.connect(this.url, 0);
+	}
+
+	private connect(url: string, redirects: number) {
+		const request = url.startsWith("https:") ? httpsRequest : httpRequest;
+
+		this.request = request(url, { headers: { Accept: "text/event-stream" } }, (response) => {
+			const { headers, statusCode = 0 } = response;
+
+			if (statusCode >= 300 && statusCode < 400 && headers.location) {
+				response.resume();
+
+				if (redirects >= MAX_REDIRECTS) return this.end(new RTDBRestError(statusCode, "Too many redirects"));
+
+				// The stream is served by the database server whose location is given by the redirect
+				return this.connect(new URL(headers.location, url).toString(), redirects + 1);
+			}
+
+			if (statusCode !== 200) return this.readError(response);
+
+			this.response = response;
+			this.handlers.onOpen();
+			this.read(response);
+		});
+
+		this.request.on("error", (error) => this.end(error));
+		this.request.end();
+	}
+
+	private end(error?: Error) {
+		if (this.closed) return;
+
+		this.closed = true;
+		this.handlers.onClose(error);
+	}
+
+	private read(response: IncomingMessage) {
+		let buffer = "";
+		let data: string[] = [];
+		let event = "message";
+
+		response.setEncoding("utf8");
+		response.on("data", (chunk: string) => {
+			buffer += chunk;
+
+			const lines = buffer.split(/\r?\n/);
+
+			buffer = lines.pop() ?? "";
+
+			for (const line of lines) {
+				// Closed by a handler of the previous event
+				if (this.closed) return;
+
+				if (line === "") {
+					if (data.length) this.handlers.onEvent(event, data.join("\n"));
+
+					data = [];
+					event = "message";
+					continue;
+				}
+
+				if (line.startsWith(":")) continue;
+
+				const separator = line.indexOf(":");
+				const field = separator === -1 ? line : line.slice(0, separator);
+				const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+				if (field === "event") event = value;
+				if (field === "data") data.push(value);
+			}
+		});
+		response.on("end", () => this.end());
+		response.on("error", (error) => this.end(error));
+	}
+
+	private readError(response: IncomingMessage) {
+		let body = "";
+
+		response.setEncoding("utf8");
+		response.on("data", (chunk: string) => (body += chunk));
+		response.on("end", () => this.end(RTDBRestError.fromResponse(response.statusCode ?? 0, body)));
+		response.on("error", (error) => this.end(error));
+	}
+}
@@ -17,6 +17,17 @@
 
 export { DataSnapshot } from "firebase/database";
 export { DataSnapshot as AdminDataSnapshot } from "firebase-admin/database";
+export * from "./constants";
+export * from "./delivery";
+export * from "./outbox";
+export * from "./patch";
+export * from "./rest-database";
+export { RestDataSnapshot, RestReference } from "./rest-snapshot";
 export * from "./rtdb";
 export * from "./rtdb-error";
+export { RuleDataSnapshot } from "./rule-snapshot";
+export * from "./rules";
+export * from "./subscription-iterator";
 export * from "./types";
+export * from "./utils";
+export * from "./validator";
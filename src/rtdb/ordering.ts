@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { QueryConstraintType, RangeQuery } from "./types";
+
+type Node = Record<string, unknown>;
+
+const INTEGER_KEY = /^-?\d{1,10}$/;
+
+function isNode(value: unknown): value is Node {
+	return typeof value === "object" && value !== null;
+}
+
+/**
+ * Removes the priorities of the exported value, as `val()` does.
+ * @param exported The value in the export format
+ * @returns The value without priorities, `null` if it does not exist
+ */
+function stripPriorities(exported: unknown): unknown {
+	if (!isNode(exported)) return exported ?? null;
+	if (".value" in exported) return exported[".value"];
+
+	const entries = Object.entries(exported)
+		.filter(([key]) => key !== ".priority")
+		.map(([key, child]) => [key, stripPriorities(child)] as const)
+		.filter(([, child]) => child !== null);
+
+	return entries.length ? Object.fromEntries(entries) : null;
+}
+
+function compareKeys(a: string, b: string): number {
+	const aInteger = INTEGER_KEY.test(a) && Math.abs(Number(a)) <= 2 ** 31;
+	const bInteger = INTEGER_KEY.test(b) && Math.abs(Number(b)) <= 2 ** 31;
+
+	if (aInteger && bInteger) return Number(a) - Number(b) || (a < b ? -1 : a > b ? 1 : 0);
+	if (aInteger) return -1;
+	if (bInteger) return 1;
+
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compares two values the way RTDB orders them: `null`, `false`, `true`, numbers, strings then objects.
+ */
+function compareValues(a: unknown, b: unknown): number {
+	const rank = (value: unknown) =>
+		value === null || value === undefined
+			? 0
+			: value === false
+			? 1
+			: value === true
+			? 2
+			: typeof value === "number"
+			? 3
+			: typeof value === "string"
+			? 4
+			: 5;
+	const rankA = rank(a);
+	const rankB = rank(b);
+
+	if (rankA !== rankB) return rankA - rankB;
+	if (rankA === 3) return (a as number) - (b as number);
+	if (rankA === 4) return a === b ? 0 : (a as string) < (b as string) ? -1 : 1;
+
+	return 0;
+}
+
+/**
+ * Gets the value by which the child is ordered in the query.
+ */
+function sortValue(node: Node, key: string, constraints: QueryConstraintType): unknown {
+	const child = node[key];
+	const { orderByChild } = constraints;
+
+	if ("orderByValue" in constraints) return stripPriorities(child);
+	if (orderByChild !== undefined)
+		return stripPriorities(
+			orderByChild.split("/").reduce<unknown>((value, segment) => (isNode(value) ? value[segment] : null), child)
+		);
+
+	return isNode(child) ? child[".priority"] ?? null : null;
+}
+
+/**
+ * Orders the children of the node like the SDKs do for the query.
+ * @param node The node in the export format
+ * @param constraints The Query constraints, the children are ordered by priority if none is given
+ * @returns The keys of the children, ordered
+ */
+function orderChildren(node: unknown, constraints: QueryConstraintType = {}): string[] {
+	if (!isNode(node) || ".value" in node) return [];
+
+	const keys = Object.keys(node).filter((key) => key !== ".priority" && stripPriorities(node[key]) !== null);
+
+	if ("orderByKey" in constraints) return keys.sort(compareKeys);
+
+	return keys.sort(
+		(a, b) => compareValues(sortValue(node, a, constraints), sortValue(node, b, constraints)) || compareKeys(a, b)
+	);
+}
+
+/**
+ * Selects the children of the node matching the query, like the server does.
+ * @param node The node in the export format
+ * @param constraints The Query constraints
+ * @returns The keys of the children matching, ordered
+ */
+function queryChildren(node: unknown, constraints: QueryConstraintType = {}): string[] {
+	if (!isNode(node)) return [];
+
+	// Position of the child relative to the bound, the key breaks the ties when given
+	const compare = (key: string, range: RangeQuery) => {
+		if ("orderByKey" in constraints) return compareKeys(key, String(range.value));
+
+		const result = compareValues(sortValue(node, key, constraints), range.value);
+
+		return result || (range.key === undefined ? 0 : compareKeys(key, range.key));
+	};
+	const { endAt, endBefore, equalTo, limitToFirst, limitToLast, startAfter, startAt } = constraints;
+	let keys = orderChildren(node, constraints).filter(
+		(key) =>
+			(!equalTo || compare(key, equalTo) === 0) &&
+			(!startAt || compare(key, startAt) >= 0) &&
+			(!startAfter || compare(key, startAfter) > 0) &&
+			(!endAt || compare(key, endAt) <= 0) &&
+			(!endBefore || compare(key, endBefore) < 0)
+	);
+
+	if (limitToFirst !== undefined) keys = keys.slice(0, limitToFirst);
+	if (limitToLast !== undefined) keys = keys.slice(Math.max(keys.length - limitToLast, 0));
+
+	return keys;
+}
+
+export { compareKeys, compareValues, isNode, orderChildren, queryChildren, stripPriorities };
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { randomBytes } from "crypto";
+import {
+	appendFileSync,
+	closeSync,
+	existsSync,
+	fdatasyncSync,
+	openSync,
+	readFileSync,
+	writeFileSync,
+	writeSync,
+} from "fs";
+import { OutboxWrite } from "./types";
+
+type OutboxEntry = OutboxWrite | { ack: string };
+
+/**
+ * Records the pending writes in a JSON lines file to replay them after a restart of the process.
+ * Each write is appended when issued and acknowledged by another line once the server has received it.
+ */
+export class Outbox {
+	private _writes: Map<string, OutboxWrite> = new Map();
+
+	constructor(public readonly file: string) {
+		this.load();
+	}
+
+	/**
+	 * The writes not yet acknowledged, in the order they have been issued.
+	 */
+	public get writes(): OutboxWrite[] {
+		return Array.from(this._writes.values());
+	}
+
+	public acknowledge(id: string): void {
+		if (!this._writes.delete(id)) return;
+
+		// Nothing left to replay, so the file can start over
+		if (this._writes.size) {
+			this.append({ ack: id });
+		} else {
+			writeFileSync(this.file, "");
+		}
+	}
+
+	private append(entry: OutboxEntry) {
+		const fd = openSync(this.file, "a");
+
+		try {
+			writeSync(fd, JSON.stringify(entry) + "\n");
+			// The write must survive a power loss
+			fdatasyncSync(fd);
+		} finally {
+			closeSync(fd);
+		}
+	}
+
+	private load() {
+		if (!existsSync(this.file)) return;
+
+		const content = readFileSync(this.file, "utf8");
+
+		// Ends the line truncated by a power loss so that the next entry is not appended to it
+		if (content && !content.endsWith("\n")) appendFileSync(this.file, "\n");
+
+		for (const line of content.split("\n")) {
+			let entry: OutboxEntry;
+
+			try {
+				entry = JSON.parse(line);
+			} catch {
+				// Empty or truncated by a power loss
+				continue;
+			}
+
+			if (!entry || typeof entry !== "object") continue;
+
+			if ("ack" in entry) {
+				this._writes.delete(entry.ack);
+			} else if (typeof entry.id === "string" && !this._writes.has(entry.id)) {
+				this._writes.set(entry.id, entry);
+			}
+		}
+	}
+
+	public record(write: Omit<OutboxWrite, "id">): OutboxWrite {
+		const entry = { id: randomBytes(16).toString("hex"), ...write };
+
+		this.append(entry);
+		this._writes.set(entry.id, entry);
+
+		return entry;
+	}
+}
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { RTDBError } from "./rtdb-error";
+import { JsonPatchOperation, JsonPatchOperationMap, MultiPathUpdate } from "./types";
+import { printEnumKeys } from "../utils";
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+/**
+ * Converts the path to a JSON Pointer (RFC 6901).
+ * @param path The path, `/` separated
+ * @returns The JSON Pointer, an empty string for the root
+ */
+function toPointer(path?: string): string {
+	const segments = (path ?? "").split("/").filter((segment) => segment);
+
+	return segments.map((segment) => `/${segment.replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
+
+/**
+ * Converts the JSON Pointer (RFC 6901) to a path.
+ * @param pointer The JSON Pointer
+ * @returns The path, `/` separated, an empty string for the root
+ */
+function fromPointer(pointer: string): string {
+	if (pointer === "") return "";
+	if (!pointer.startsWith("/"))
+		throw new RTDBError("rtdb/invalid-patch", `The JSON Pointer "${pointer}" must start with '/'!`);
+
+	return pointer
+		.slice(1)
+		.split("/")
+		.map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+		.join("/");
+}
+
+/**
+ * Computes the JSON Patch (RFC 6902) operations turning the previous value into the current value.
+ * A missing or `null` value is considered as not existing, as in RTDB. The items removed from an array
+ * are removed from the last one, so that the operations can be applied in order.
+ * The root, which cannot be written by a multi-location update, is never targeted when its value is an object:
+ * its children are compared instead.
+ * @param previous The previous value
+ * @param current The current value
+ * @param path The path of the values, the operation paths are prefixed with it. Default: the root
+ * @returns The operations, empty if the values are equal
+ */
+function diffValues(previous: unknown, current: unknown, path?: string): JsonPatchOperation[] {
+	const operations: JsonPatchOperation[] = [];
+
+	const diffChildren = (before: Record<string, unknown>, after: Record<string, unknown>, pointer: string) => {
+		const removedKeys = Object.keys(before).filter((key) => !(key in after));
+
+		// The next indexes of an array would no longer exist once the first one is removed
+		if (Array.isArray(before)) removedKeys.reverse();
+
+		for (const key of removedKeys) {
+			diff(before[key], undefined, `${pointer}${toPointer(key)}`);
+		}
+
+		for (const [key, value] of Object.entries(after)) {
+			diff(before[key], value, `${pointer}${toPointer(key)}`);
+		}
+	};
+
+	const diff = (before: unknown, after: unknown, pointer: string) => {
+		const existedBefore = before !== undefined && before !== null;
+		const existsAfter = after !== undefined && after !== null;
+
+		if (!existedBefore && !existsAfter) return;
+		if (pointer === "" && (!existedBefore || isObject(before)) && (!existsAfter || isObject(after)))
+			return diffChildren(isObject(before) ? before : {}, isObject(after) ? after : {}, pointer);
+		if (!existedBefore) return operations.push({ op: "add", path: pointer, value: after });
+		if (!existsAfter) return operations.push({ op: "remove", path: pointer });
+		if (isObject(before) && isObject(after) && Array.isArray(before) === Array.isArray(after))
+			return diffChildren(before, after, pointer);
+		if (before !== after) operations.push({ op: "replace", path: pointer, value: after });
+	};
+
+	diff(previous, current, toPointer(path));
+
+	return operations;
+}
+
+/**
+ * Converts the JSON Patch (RFC 6902) operations to a multi-location update. The operations are relative
+ * to the path; `remove` is written as `null`, `add` and `replace` as their value.
+ * @param operations The JSON Patch operations
+ * @param path The path from which the operation paths are relative. Default: the root
+ * @returns The map of paths, relative to the root, to values
+ */
+function patchToUpdates(operations: JsonPatchOperation[], path?: string): MultiPathUpdate {
+	if (!Array.isArray(operations))
+		throw new RTDBError("rtdb/invalid-patch", "The JSON Patch must be an array of operations!");
+	if (!operations.length)
+		throw new RTDBError("rtdb/invalid-patch", "The JSON Patch must contain at least one operation!");
+
+	const updates: MultiPathUpdate = {};
+
+	for (const operation of operations) {
+		if (!isObject(operation)) throw new RTDBError("rtdb/invalid-patch", "A JSON Patch operation must be an object!");
+
+		const { op, path: pointer } = operation;
+
+		if (!(typeof op === "string" && op in JsonPatchOperationMap))
+			throw new RTDBError(
+				"rtdb/invalid-patch",
+				`The JSON Patch operation must be one of ${printEnumKeys(JsonPatchOperationMap)}.`
+			);
+		if (typeof pointer !== "string")
+			throw new RTDBError("rtdb/invalid-patch", "The JSON Patch operation path must be a string!");
+
+		const fullPath = [path, fromPointer(pointer)].filter((segment) => segment).join("/");
+
+		if (!fullPath) throw new RTDBError("rtdb/invalid-patch", "A JSON Patch operation cannot target the database root!");
+
+		if (operation.op === "remove") {
+			updates[fullPath] = null;
+		} else {
+			if (operation.value === undefined)
+				throw new RTDBError("rtdb/invalid-patch", `The '${op}' operation at "${pointer}" must contain a value!`);
+
+			updates[fullPath] = operation.value;
+		}
+	}
+
+	return updates;
+}
+
+export { diffValues, patchToUpdates, toPointer };
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "node:assert";
+import { createServer, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { RestDatabase } from "./rest-database";
+import { RestTokenProvider } from "./types";
+
+describe("RestDatabase subscriptions", () => {
+	let server: Server;
+	let streams: ServerResponse[] = [];
+	let url = "";
+
+	before(async () => {
+		server = createServer((_req, res) => {
+			streams.push(res);
+			res.writeHead(200, { "Content-Type": "text/event-stream" });
+			res.write('event: put\ndata: {"path":"/","data":1}\n\n');
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	beforeEach(() => {
+		server.closeAllConnections();
+		streams = [];
+	});
+
+	after(() => {
+		server.closeAllConnections();
+		server.close();
+	});
+
+	const create = (getToken: RestTokenProvider = async () => undefined) => new RestDatabase(url, undefined, getToken);
+
+	it("receives the events of the stream", async () => {
+		const values: unknown[] = [];
+		const unsubscribe = create().subscribe("a", {}, "value", (snapshot) => values.push(snapshot.val()), assert.fail);
+
+		await sleep(100);
+		unsubscribe();
+
+		assert.deepEqual(values, [1]);
+		assert.equal(streams.length, 1);
+	});
+
+	it("does not open the stream when unsubscribed before it is opened", async () => {
+		let calls = 0;
+		const unsubscribe = create().subscribe("a", {}, "value", () => calls++, assert.fail);
+
+		unsubscribe();
+		await sleep(100);
+
+		assert.equal(streams.length, 0);
+		assert.equal(calls, 0);
+	});
+
+	it("does not open the stream when going offline before it is opened", async () => {
+		const database = create();
+		let calls = 0;
+
+		database.subscribe("a", {}, "value", () => calls++, assert.fail);
+		database.goOffline();
+		await sleep(100);
+
+		assert.equal(streams.length, 0);
+		assert.equal(calls, 0);
+	});
+
+	it("retries instead of cancelling when the token cannot be obtained", async () => {
+		let attempts = 0;
+		const database = create(async () => {
+			if (!attempts++) throw new Error("Network down");
+			return undefined;
+		});
+		const values: unknown[] = [];
+		const unsubscribe = database.subscribe("a", {}, "value", (snapshot) => values.push(snapshot.val()), assert.fail);
+
+		await sleep(1200);
+		unsubscribe();
+
+		assert.equal(attempts, 2);
+		assert.deepEqual(values, [1]);
+	});
+
+	it("cancels the subscription on a malformed event", async () => {
+		const errors: Error[] = [];
+		const unsubscribe = create().subscribe(
+			"a",
+			{},
+			"value",
+			() => undefined,
+			(error) => errors.push(error)
+		);
+
+		await sleep(100);
+		streams[0].write("event: put\ndata: {not json\n\n");
+		await sleep(100);
+		unsubscribe();
+
+		assert.equal(errors.length, 1);
+		assert.equal((errors[0] as Error & { code: string }).code, "rtdb/http-error");
+	});
+});
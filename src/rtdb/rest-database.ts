@@ -0,0 +1,574 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { App } from "firebase-admin/app";
+import { FirebaseApp } from "firebase/app";
+import { IncomingHttpHeaders, request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { EventStream } from "./event-stream";
+import { orderChildren } from "./ordering";
+import { RTDBError, RTDBRestError } from "./rtdb-error";
+import { RestDataSnapshot, RestReference } from "./rest-snapshot";
+import { Listener, QueryConstraintType, QueryMethod, RestTokenProvider, TransactionUpdate } from "./types";
+
+const PUSH_CHARS = "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz";
+
+/** The number of times a transaction is re-run after a conflict, same as the SDKs */
+const MAX_TRANSACTION_RETRIES = 25;
+
+const RestMethodMap = {
+	push: "POST",
+	remove: "DELETE",
+	set: "PUT",
+	update: "PATCH",
+} as const;
+
+interface RestRequestOptions {
+	body?: unknown;
+	headers?: Record<string, string>;
+	params?: Record<string, string>;
+	/** The status codes, other than 2xx, returned instead of being thrown */
+	statuses?: number[];
+}
+
+interface RestResponse {
+	body: unknown;
+	headers: IncomingHttpHeaders;
+	status: number;
+}
+
+type RestCallback = (snapshot: RestDataSnapshot, previousChildName?: string | null) => void;
+
+function setAt(root: unknown, segments: string[], value: unknown): unknown {
+	if (!segments.length) return value;
+
+	const [key, ...rest] = segments;
+	const node: Record<string, unknown> = root && typeof root === "object" ? { ...root } : {};
+	const child = setAt(node[key], rest, value);
+
+	if (child === null || child === undefined) {
+		delete node[key];
+	} else {
+		node[key] = child;
+	}
+
+	return Object.keys(node).length ? node : null;
+}
+
+/**
+ * The Realtime Database reached through the REST API, the subscriptions being streamed with Server-Sent Events.
+ * It does not use the WebSocket of the SDKs, so it works where they are blocked.
+ */
+export class RestDatabase {
+	private _connected = false;
+	private connectionCallbacks: Set<(connected: boolean) => void> = new Set();
+	private lastPushTime = 0;
+	private lastRandomChars: number[] = [];
+	private online = true;
+	private probeTimeoutID: ReturnType<typeof setTimeout> | undefined;
+	private subscriptions: Set<RestSubscription> = new Set();
+
+	/**
+	 * @param url The URL of the database, e.g. `https://<project>.firebaseio.com` or a local stand-in
+	 * @param app The app from which the tokens are obtained
+	 * @param getToken Gets the token to authenticate the requests, none to send them unauthenticated
+	 */
+	constructor(
+		public readonly url: string,
+		public readonly app: App | FirebaseApp | undefined,
+		protected getToken: RestTokenProvider
+	) {
+		if (!/^https?:\/\//.test(url))
+			throw new RTDBError("rtdb/invalid-options", `The database URL "${url}" must be an HTTP(S) URL`);
+	}
+
+	public get connected(): boolean {
+		return this._connected;
+	}
+
+	/**
+	 * Builds the URL of the path, with the query parameters and the token.
+	 * @param path The path of the data
+	 * @param params The query parameters
+	 * @returns The URL
+	 */
+	public async buildURL(path: string | undefined, params: Record<string, string> = {}): Promise<string> {
+		const url = new URL(new RestReference(this.url, path ?? "").toString());
+		const token = await this.getToken();
+
+		url.pathname += ".json";
+		// Keeps the parameters of the database URL, like `ns` for a local stand-in
+		new URL(this.url).searchParams.forEach((value, name) => url.searchParams.set(name, value));
+
+		for (const [name, value] of Object.entries(params)) url.searchParams.set(name, value);
+
+		if (token) url.searchParams.set(token.param, token.token);
+
+		return url.toString();
+	}
+
+	/**
+	 * Generates the key of a new child, the same way the SDKs do: chronologically ordered and unique.
+	 * @returns The key generated
+	 */
+	public generateKey(): string {
+		let now = Date.now();
+		const duplicateTime = now === this.lastPushTime;
+		const timeChars: string[] = [];
+
+		this.lastPushTime = now;
+
+		for (let i = 0; i < 8; i++) {
+			timeChars.unshift(PUSH_CHARS.charAt(now % 64));
+			now = Math.floor(now / 64);
+		}
+
+		if (!duplicateTime) {
+			this.lastRandomChars = Array.from({ length: 12 }, () => Math.floor(Math.random() * 64));
+		} else {
+			// Same millisecond, increments the random part so that the keys remain ordered
+			let i = 11;
+			for (; i >= 0 && this.lastRandomChars[i] === 63; i--) this.lastRandomChars[i] = 0;
+			this.lastRandomChars[i]++;
+		}
+
+		return timeChars.join("") + this.lastRandomChars.map((char) => PUSH_CHARS.charAt(char)).join("");
+	}
+
+	public async get(path: string | undefined, constraints: QueryConstraintType = {}): Promise<RestDataSnapshot> {
+		const { body } = await this.request("GET", path, {
+			params: { ...this.queryParams(constraints), format: "export" },
+		});
+
+		return new RestDataSnapshot(new RestReference(this.url, path ?? ""), body, constraints);
+	}
+
+	public goOffline(): void {
+		this.online = false;
+
+		for (const subscription of this.subscriptions) subscription.close();
+
+		if (this.probeTimeoutID) clearTimeout(this.probeTimeoutID);
+
+		this.probeTimeoutID = undefined;
+		this.setConnected(false);
+	}
+
+	public goOnline(): void {
+		if (this.online) return;
+
+		this.online = true;
+
+		for (const subscription of this.subscriptions) subscription.open();
+
+		this.probe();
+	}
+
+	/**
+	 * Gets the keys of the children without their data, with the `shallow` parameter.
+	 * @param path The path of the parent
+	 * @returns The keys of the children
+	 */
+	public async keys(path?: string): Promise<string[]> {
+		const { body } = await this.request("GET", path, { params: { shallow: "true" } });
+
+		return body && typeof body === "object" ? Object.keys(body) : [];
+	}
+
+	/**
+	 * Calls the callback with the connection state, now and each time it changes.
+	 * The database is connected once a request has reached the server.
+	 * @param callback The function called with the connection state
+	 * @returns The function to stop calling the callback
+	 */
+	public onConnected(callback: (connected: boolean) => void): () => void {
+		this.connectionCallbacks.add(callback);
+		callback(this._connected);
+
+		if (!this._connected) this.probe();
+
+		return () => this.connectionCallbacks.delete(callback);
+	}
+
+	private probe() {
+		if (this.probeTimeoutID || !this.online) return;
+
+		this.request("GET", undefined, { params: { shallow: "true" }, statuses: [401, 403] }).catch(() => {
+			// Retries until the server can be reached
+			if (!this.online || !this.connectionCallbacks.size) return;
+			this.probeTimeoutID = setTimeout(() => {
+				this.probeTimeoutID = undefined;
+				this.probe();
+			}, 5000);
+		});
+	}
+
+	/**
+	 * Converts the Query constraints to the query parameters of the REST API.
+	 * @param constraints The Query constraints, already checked
+	 * @returns The query parameters
+	 */
+	public queryParams(constraints: QueryConstraintType): Record<string, string> {
+		const params: Record<string, string> = {};
+
+		for (const [name, value] of Object.entries(constraints)) {
+			switch (name) {
+				case "orderByChild":
+					params.orderBy = JSON.stringify(value);
+					break;
+				case "orderByKey":
+					params.orderBy = JSON.stringify("$key");
+					break;
+				case "orderByPriority":
+					params.orderBy = JSON.stringify("$priority");
+					break;
+				case "orderByValue":
+					params.orderBy = JSON.stringify("$value");
+					break;
+				case "limitToFirst":
+				case "limitToLast":
+					params[name] = String(value);
+					break;
+				default:
+					if (value.key !== undefined)
+						throw new RTDBError(
+							"rtdb/unsupported",
+							`The "key" of the "${name}" constraint is not supported by the REST API`
+						);
+
+					params[name] = JSON.stringify(value.value);
+			}
+		}
+
+		// The REST API requires the order of the children to filter them
+		if (Object.keys(params).length && !params.orderBy) params.orderBy = JSON.stringify("$priority");
+
+		return params;
+	}
+
+	private async request(method: string, path: string | undefined, options: RestRequestOptions = {}) {
+		const { body, headers = {}, params, statuses = [] } = options;
+		const url = await this.buildURL(path, params);
+		const request = url.startsWith("https:") ? httpsRequest : httpRequest;
+		const payload = body === undefined ? undefined : JSON.stringify(body);
+
+		return new Promise<RestResponse>((resolve, reject) => {
+			const req = request(
+				url,
+				{ method, headers: payload ? { ...headers, "Content-Type": "application/json" } : headers },
+				(res) => {
+					let data = "";
+
+					res.setEncoding("utf8");
+					res.on("data", (chunk: string) => (data += chunk));
+					res.on("error", reject);
+					res.on("end", () => {
+						const status = res.statusCode ?? 0;
+
+						this.setConnected(true);
+
+						if ((status < 200 || status >= 300) && !statuses.includes(status))
+							return reject(RTDBRestError.fromResponse(status, data));
+
+						try {
+							resolve({ body: data ? JSON.parse(data) : null, headers: res.headers, status });
+						} catch (error) {
+							reject(error);
+						}
+					});
+				}
+			);
+
+			req.on("error", (error) => {
+				this.setConnected(false);
+				reject(error);
+			});
+			req.end(payload);
+		});
+	}
+
+	/** @internal */
+	public setConnected(connected: boolean) {
+		if (connected === this._connected) return;
+
+		this._connected = connected;
+
+		for (const callback of this.connectionCallbacks) callback(connected);
+
+		if (!connected && this.connectionCallbacks.size) this.probe();
+	}
+
+	public subscribe(
+		path: string | undefined,
+		constraints: QueryConstraintType,
+		listener: Listener,
+		callback: RestCallback,
+		cancelCallback: (error: Error) => void
+	): () => void {
+		const subscription = new RestSubscription(this, path ?? "", constraints, listener, callback, (error) => {
+			this.subscriptions.delete(subscription);
+			cancelCallback(error);
+		});
+
+		this.subscriptions.add(subscription);
+
+		if (this.online) subscription.open();
+
+		return () => {
+			this.subscriptions.delete(subscription);
+			subscription.close();
+		};
+	}
+
+	/**
+	 * Runs the transaction with conditional requests: the value is written only if its ETag has not changed,
+	 * otherwise the update function is re-run with the value returned by the server.
+	 * @param path The path of the data
+	 * @param update The function returning the new value from the current one, `undefined` to abort
+	 * @returns Whether the value has been written and the snapshot of the data
+	 */
+	public async transaction(
+		path: string,
+		update: TransactionUpdate
+	): Promise<{ committed: boolean; snapshot: RestDataSnapshot }> {
+		const reference = new RestReference(this.url, path);
+		let response = await this.request("GET", path, { headers: { "X-Firebase-ETag": "true" } });
+
+		for (let attempt = 0; attempt <= MAX_TRANSACTION_RETRIES; attempt++) {
+			const value = update(response.body);
+
+			if (value === undefined) break;
+
+			const etag = response.headers.etag;
+
+			if (!etag) throw new RTDBError("rtdb/http-error", `The server did not return the ETag of "${path}"`, { path });
+
+			response = await this.request("PUT", path, { body: value, headers: { "if-match": etag }, statuses: [412] });
+
+			if (response.status !== 412) return { committed: true, snapshot: new RestDataSnapshot(reference, response.body) };
+		}
+
+		return { committed: false, snapshot: new RestDataSnapshot(reference, response.body) };
+	}
+
+	/**
+	 * Writes the value at the path, the server values placeholders being resolved by the server.
+	 * @param method The Query method
+	 * @param path The path to write
+	 * @param value The value to write
+	 * @param priority The priority to set, for `setPriority` and `setWithPriority`
+	 */
+	public async write(method: QueryMethod, path: string, value?: unknown, priority?: string | number | null) {
+		switch (method) {
+			case "setPriority":
+				await this.request("PUT", `${path}/.priority`, { body: priority ?? null, params: { print: "silent" } });
+				break;
+			case "setWithPriority": {
+				const exported =
+					value && typeof value === "object" && !Array.isArray(value)
+						? { ...value, ".priority": priority ?? null }
+						: { ".value": value ?? null, ".priority": priority ?? null };
+
+				await this.request("PUT", path, { body: exported, params: { print: "silent" } });
+				break;
+			}
+			case "push":
+				// `print=silent` would not return the key generated
+				await this.request("POST", path, { body: value });
+				break;
+			default:
+				await this.request(RestMethodMap[method], path, { body: value, params: { print: "silent" } });
+				break;
+		}
+	}
+}
+
+/**
+ * A subscription streamed with Server-Sent Events. The data received is cached to raise the same events as the SDKs.
+ */
+class RestSubscription {
+	private data: unknown = null;
+	/** Incremented on each close, so that a stream opened in the meantime is discarded */
+	private generation = 0;
+	private received = false;
+	private retryDelay = 1000;
+	private stream?: EventStream;
+	private timeoutID: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(
+		protected database: RestDatabase,
+		protected path: string,
+		protected constraints: QueryConstraintType,
+		protected listener: Listener,
+		protected callback: RestCallback,
+		protected cancelCallback: (error: Error) => void
+	) {}
+
+	public close(): void {
+		if (this.timeoutID) clearTimeout(this.timeoutID);
+
+		this.generation++;
+		this.timeoutID = undefined;
+		this.stream?.close();
+		this.stream = undefined;
+	}
+
+	public open(): void {
+		this.close();
+
+		const generation = this.generation;
+
+		this.database
+			.buildURL(this.path, this.database.queryParams(this.constraints))
+			.then((url) => {
+				// Closed, or opened again, while the token was obtained
+				if (generation !== this.generation) return;
+
+				const stream = new EventStream(url, {
+					onOpen: () => {
+						this.retryDelay = 1000;
+						this.database.setConnected(true);
+					},
+					onEvent: (event, data) => this.onEvent(event, data),
+					onClose: (error) => {
+						if (error instanceof RTDBRestError && error.code === "rtdb/permission-denied") return this.cancel(error);
+						if (error) this.database.setConnected(false);
+						this.reconnect();
+					},
+				});
+
+				this.stream = stream;
+				stream.open();
+			})
+			.catch(() => {
+				// The token could not be obtained, e.g. because the network is down: tried again later
+				if (generation !== this.generation) return;
+
+				this.database.setConnected(false);
+				this.reconnect();
+			});
+	}
+
+	private cancel(error: Error) {
+		this.close();
+		this.cancelCallback(error);
+	}
+
+	private notify(previous: unknown, current: unknown) {
+		const reference = new RestReference(this.database.url, this.path);
+
+		if (this.listener === "value") {
+			// The first event gives the initial value, even if it does not exist
+			if (!this.received || JSON.stringify(previous) !== JSON.stringify(current))
+				this.callback(new RestDataSnapshot(reference, current, this.constraints), null);
+
+			this.received = true;
+			return;
+		}
+
+		const previousKeys = orderChildren(previous, this.constraints);
+		const currentKeys = orderChildren(current, this.constraints);
+		const child = (node: unknown, key: string) =>
+			new RestDataSnapshot(reference.child(key), (node as Record<string, unknown>)[key]);
+
+		if (this.listener === "child_removed") {
+			for (const key of previousKeys) if (!currentKeys.includes(key)) this.callback(child(previous, key));
+			return;
+		}
+
+		currentKeys.forEach((key, index) => {
+			const previousChildName = index ? currentKeys[index - 1] : null;
+			const previousIndex = previousKeys.indexOf(key);
+
+			if (previousIndex === -1) {
+				if (this.listener === "child_added") this.callback(child(current, key), previousChildName);
+				return;
+			}
+
+			const before = JSON.stringify((previous as Record<string, unknown>)[key]);
+			const after = JSON.stringify((current as Record<string, unknown>)[key]);
+			const moved = (previousIndex ? previousKeys[previousIndex - 1] : null) !== previousChildName;
+
+			if (this.listener === "child_changed" && before !== after) this.callback(child(current, key), previousChildName);
+			if (this.listener === "child_moved" && moved && before !== after)
+				this.callback(child(current, key), previousChildName);
+		});
+	}
+
+	private onEvent(event: string, raw: string) {
+		switch (event) {
+			case "put":
+			case "patch": {
+				let message: { data: unknown; path: string };
+
+				try {
+					message = JSON.parse(raw);
+					if (typeof message?.path !== "string") throw new SyntaxError("The path of the event is missing");
+				} catch (error) {
+					// The cached data could no longer follow the server, so the subscription is cancelled
+					this.cancel(
+						new RTDBError("rtdb/http-error", `Malformed '${event}' event received`, {
+							cause: error,
+							listener: this.listener,
+							path: this.path,
+						})
+					);
+					break;
+				}
+
+				const { data, path } = message;
+				const segments = path.split("/").filter((segment) => segment);
+				const previous = this.data;
+
+				if (event === "put") {
+					this.data = setAt(this.data, segments, data);
+				} else if (data && typeof data === "object") {
+					for (const [key, value] of Object.entries(data)) {
+						this.data = setAt(this.data, [...segments, ...key.split("/").filter((segment) => segment)], value);
+					}
+				}
+
+				this.notify(previous, this.data);
+				break;
+			}
+			case "cancel": {
+				let msg = raw;
+
+				try {
+					msg = JSON.parse(raw) ?? "The subscription has been cancelled";
+				} catch {
+					// Not JSON, kept as is
+				}
+
+				this.cancel(new RTDBRestError(/permission/i.test(msg) ? 403 : 400, msg));
+				break;
+			}
+			case "auth_revoked":
+				// The token has expired, the stream is opened again with a new one
+				this.open();
+				break;
+			case "keep-alive":
+				break;
+		}
+	}
+
+	private reconnect() {
+		this.stream = undefined;
+		this.timeoutID = setTimeout(() => this.open(), this.retryDelay);
+		this.retryDelay = Math.min(this.retryDelay * 2, 30000);
+	}
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isNode, orderChildren, stripPriorities } from "./ordering";
+import { QueryConstraintType } from "./types";
+
+/**
+ * The location of a snapshot from the REST API.
+ */
+export class RestReference {
+	constructor(protected readonly url: string, public readonly path: string) {}
+
+	public get key(): string | null {
+		return this.path.split("/").pop() || null;
+	}
+
+	public child(path: string): RestReference {
+		return new RestReference(this.url, [this.path, path].filter((segment) => segment).join("/"));
+	}
+
+	public toString(): string {
+		const url = new URL(this.url);
+
+		url.pathname = `${url.pathname.replace(/\/$/, "")}/${this.path.split("/").map(encodeURIComponent).join("/")}`;
+		url.search = "";
+
+		return url.toString();
+	}
+}
+
+/**
+ * The data read from the REST API, with the same reading methods as the SDK snapshots.
+ */
+export class RestDataSnapshot {
+	constructor(
+		public readonly ref: RestReference,
+		/** @internal The data in the export format */
+		public readonly node: unknown,
+		/** @internal */
+		public readonly constraints: QueryConstraintType = {}
+	) {}
+
+	public get key(): string | null {
+		return this.ref.key;
+	}
+
+	public get priority(): string | number | null {
+		return isNode(this.node) ? (this.node[".priority"] as string | number | undefined) ?? null : null;
+	}
+
+	public get size(): number {
+		return this.numChildren();
+	}
+
+	public child(path: string): RestDataSnapshot {
+		const child = path
+			.split("/")
+			.filter((segment) => segment)
+			.reduce<unknown>((node, segment) => (isNode(node) ? node[segment] : null), this.node);
+
+		return new RestDataSnapshot(this.ref.child(path), child ?? null);
+	}
+
+	public exists(): boolean {
+		return this.val() !== null;
+	}
+
+	public exportVal(): unknown {
+		return this.exists() ? this.node : null;
+	}
+
+	/**
+	 * Calls the action for each child, in the order of the query, until the action returns `true`.
+	 * @param action The function called with each child
+	 * @returns Whether the iteration has been stopped by the action
+	 */
+	public forEach(action: (child: RestDataSnapshot) => boolean | void): boolean {
+		for (const key of orderChildren(this.node, this.constraints)) {
+			if (action(this.child(key)) === true) return true;
+		}
+
+		return false;
+	}
+
+	public hasChild(path: string): boolean {
+		return this.child(path).exists();
+	}
+
+	public hasChildren(): boolean {
+		return this.numChildren() > 0;
+	}
+
+	public numChildren(): number {
+		return orderChildren(this.node).length;
+	}
+
+	public toJSON(): unknown {
+		return this.exportVal();
+	}
+
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	public val(): any {
+		return stripPriorities(this.node);
+	}
+}
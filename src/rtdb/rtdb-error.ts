@@ -15,9 +15,92 @@
  * limitations under the License.
  */
 
-export class RTDBError extends Error {
-	constructor(msg: string) {
-		super(msg);
+import { RTDBErrorCode, RulesResult, ValueViolation } from "./types";
+import { FirebaseNodeJSError, FirebaseNodeJSErrorOptions } from "../utils";
+
+export class RTDBError extends FirebaseNodeJSError {
+	public declare readonly code: RTDBErrorCode;
+
+	constructor(code: RTDBErrorCode, msg: string, options?: FirebaseNodeJSErrorOptions) {
+		super(code, msg, options);
 		this.name = "RTDBError";
 	}
 }
+
+export class RTDBValidationError extends RTDBError {
+	/**
+	 * @param violations The violations found in the value
+	 * @param path The path at fault. Default: the path of the first invalid node
+	 */
+	constructor(public readonly violations: ValueViolation[], path = violations[0]?.path.replace(/^\//, "")) {
+		super(
+			"rtdb/invalid-value",
+			`Invalid value to write:\n${violations.map(({ message, path }) => ` - ${path}: ${message}`).join("\n")}`,
+			{ path }
+		);
+		this.name = "RTDBValidationError";
+	}
+}
+
+export class RTDBConflictError extends RTDBError {
+	public declare readonly path: string;
+
+	constructor(path: string, public readonly current: unknown) {
+		super("rtdb/conflict", `Write conflict at "${path}": the data has changed since it was read`, { path });
+		this.name = "RTDBConflictError";
+	}
+}
+
+export class RTDBRestError extends RTDBError {
+	/**
+	 * @param status The status code of the response, the code of the error is deduced from it
+	 * @param msg The message of the error
+	 */
+	constructor(public readonly status: number, msg: string) {
+		super(
+			status === 401 || status === 403
+				? "rtdb/permission-denied"
+				: status === 404
+				? "rtdb/not-found"
+				: status === 412
+				? "rtdb/data-stale"
+				: "rtdb/http-error",
+			msg
+		);
+		this.name = "RTDBRestError";
+	}
+
+	/**
+	 * Creates the error from the response of the REST API, whose body is like `{ "error": "Permission denied" }`.
+	 * @param status The status code of the response
+	 * @param body The body of the response
+	 * @returns The error
+	 */
+	public static fromResponse(status: number, body: string): RTDBRestError {
+		let msg = body || `Request failed with status ${status}`;
+
+		try {
+			const parsed = JSON.parse(body);
+			if (parsed && typeof parsed.error === "string") msg = parsed.error;
+		} catch {
+			// The body is not JSON, kept as is
+		}
+
+		return new RTDBRestError(status, msg);
+	}
+}
+
+export class RTDBRulesError extends RTDBError {
+	constructor(public readonly operation: "read" | "write", public readonly result: RulesResult, method?: string) {
+		const { path, reason, rule } = result;
+
+		super(
+			"rtdb/rules-denied",
+			`${operation === "read" ? "Read" : "Write"} denied at "${path}" ${
+				rule ? `by the rule "${rule}"` : `as no ".${operation}" rule grants it`
+			}${reason ? `: ${reason}` : ""}`,
+			{ method, path }
+		);
+		this.name = "RTDBRulesError";
+	}
+}
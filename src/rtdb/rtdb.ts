@@ -16,68 +16,210 @@
  */
 
 import { FirebaseApp } from "firebase/app";
+import { getAuth } from "firebase/auth";
 import * as database from "firebase/database";
 import {
+	connectDatabaseEmulator,
 	Database,
 	get,
 	getDatabase,
 	goOffline,
 	goOnline,
+	increment,
 	onDisconnect,
+	onValue,
 	query,
 	QueryConstraint,
 	ref,
+	runTransaction,
+	serverTimestamp,
+	Unsubscribe,
 } from "firebase/database";
 import { App } from "firebase-admin/app";
-import { Database as AdminDatabase, getDatabase as adminGetDatabase } from "firebase-admin/database";
+import {
+	Database as AdminDatabase,
+	getDatabase as adminGetDatabase,
+	getDatabaseWithUrl as adminGetDatabaseWithUrl,
+	ServerValue as AdminServerValue,
+} from "firebase-admin/database";
+import { once } from "events";
+import { createInterface } from "readline";
+import { Readable, Writable } from "stream";
 import { TypedEmitter } from "tiny-typed-emitter";
-import { RTDBError } from "./rtdb-error";
+import { Outbox } from "./outbox";
+import { diffValues, patchToUpdates } from "./patch";
+import { RestDatabase } from "./rest-database";
+import { MAX_DEPTH, MAX_KEY_BYTES } from "./constants";
+import { Delivery } from "./delivery";
+import { RTDBConflictError, RTDBError, RTDBRulesError, RTDBValidationError } from "./rtdb-error";
+import { RulesEngine } from "./rules";
+import { SubscriptionIterator } from "./subscription-iterator";
 import {
+	BatchCallback,
+	BatchDelivery,
 	BothDataSnapshot,
+	ChangesCallback,
 	DBRef,
+	DebounceDelivery,
+	DeliveryOptions,
+	ExportTreeOptions,
+	GetOptions,
+	HashedSnapshot,
+	ImportTreeOptions,
+	JsonPatchOperation,
 	Listener,
 	ListenerMap,
+	MultiPathUpdate,
 	OnDisconnectMethod,
 	OnDisconnectMethodMap,
 	OnDisconnectSignature,
+	OutboxWrite,
+	Page,
+	PaginateOptions,
+	PaginateOrderBy,
 	QueryConstraintType,
 	QueryMethod,
 	QueryMethodMap,
 	QuerySignature,
+	RangeQuery,
+	RestOptions,
+	RestToken,
+	RuleAuth,
+	RulesOptions,
 	RTDBEvents,
+	RTDBListenerSnapshot,
+	RTDBOptions,
+	RTDBPath,
+	RTDBSnapshot,
+	RTDBValue,
+	ServerTimeOptions,
+	ServerValuePlaceholder,
+	Subscription,
+	SubscriptionCallback,
+	SubscriptionEntry,
+	SubscriptionErrorCallback,
+	ThrottleDelivery,
+	TransactionOptions,
+	TransactionResult,
+	TransactionUpdate,
+	TreeFormat,
 	Unsubscription,
+	ValueField,
+	WatchEvent,
+	WatchOptions,
+	WatchOverflowMap,
+	WriteCondition,
+	WriteValue,
 } from "./types";
-import { AdminClient, BaseClient, Client } from "../client";
+import { getPriority, hasIncrement, hashValue, parseQueryString, toRTDBError } from "./utils";
+import { hasControlCharacter, validateValue } from "./validator";
+import { AdminClient, AdminClientEvents, BaseClient, Client } from "../client";
 import { Connection, ConnectionState } from "../connection";
-import { Entry, printEnumKeys } from "../utils";
+import { ChildData, Entry, FirebaseNodeJSErrorOptions, getErrorCode, printEnumKeys } from "../utils";
+
+/** The databases of the client SDK already connected to the emulator, shared by the RTDB instances */
+const emulatedDatabases = new WeakSet<Database>();
 
-export class RTDB extends TypedEmitter<RTDBEvents> {
+/**
+ * The Realtime Database of the client.
+ * @typeParam Schema The schema of the database, where `$wildcard` keys match any key. Untyped by default.
+ */
+export class RTDB<Schema = unknown> extends TypedEmitter<RTDBEvents> {
 	private _connection: Connection;
-	private _database!: AdminDatabase | Database;
+	private _database!: AdminDatabase | Database | RestDatabase;
+	private _outbox?: Outbox;
+	private _outboxReplay?: Promise<void>;
+	private _restOptions?: RestOptions;
+	private _rules?: RulesEngine;
+	private _rulesOptions?: RulesOptions;
+	private _serverTimeOptions?: ServerTimeOptions;
+	private _subscriptionId = 0;
+	private _subscriptions: Map<string, SubscriptionEntry> = new Map();
 
-	constructor(public readonly client: AdminClient | BaseClient | Client) {
+	constructor(public readonly client: AdminClient | BaseClient | Client, options: RTDBOptions = {}) {
 		if (!(client instanceof AdminClient) && !(client instanceof BaseClient) && !(client instanceof Client))
-			throw new TypeError("RTDB must be instantiated with Client as parameter");
+			throw new RTDBError("rtdb/invalid-argument", "RTDB must be instantiated with Client as parameter");
+		if (options.outbox && typeof options.outbox.file !== "string")
+			throw new RTDBError("rtdb/invalid-options", "The outbox file must be a string!");
+		if (options.serverTime?.threshold !== undefined && !(options.serverTime.threshold >= 0))
+			throw new RTDBError("rtdb/invalid-options", "The server time threshold must be a number >= 0!");
+		if (options.rest && options.rest.url !== undefined && typeof options.rest.url !== "string")
+			throw new RTDBError("rtdb/invalid-options", "The REST database URL must be a string!");
+		if (options.rest && !["function", "string", "undefined"].includes(typeof options.rest.auth))
+			throw new RTDBError("rtdb/invalid-options", "The REST auth must be a string or a function!");
+		if (options.rules && (!options.rules.source || !["object", "string"].includes(typeof options.rules.source)))
+			throw new RTDBError("rtdb/invalid-options", "The rules source must be a string or an object!");
+		if (options.rules?.data !== undefined && typeof options.rules.data !== "function")
+			throw new RTDBError("rtdb/invalid-options", "The rules data must be a function!");
 
 		super();
+		this._restOptions = options.rest;
+		this._rules = options.rules && new RulesEngine(options.rules.source);
+		this._rulesOptions = options.rules;
+		this._serverTimeOptions = options.serverTime;
 		this.getDatabase();
-		this._connection = new Connection(this);
+		this._connection = new Connection(this.untyped, this._serverTimeOptions);
+		this.attachClientListeners();
+
+		if (options.outbox) {
+			const outbox = new Outbox(options.outbox.file);
+			const previousWrites = outbox.writes;
+
+			this._outbox = outbox;
+			// The writes of the previous process are replayed, before the new ones, once the server can receive them
+			this._outboxReplay = new Promise((resolve) =>
+				this.once("connected", () => {
+					this.replayOutbox(previousWrites);
+					resolve();
+				})
+			);
+		}
 	}
 
 	public get connectionState(): ConnectionState {
 		return this._connection.state;
 	}
 
-	public get database(): AdminDatabase | Database {
+	public get database(): AdminDatabase | Database | RestDatabase {
 		return this._database;
 	}
 
-	protected applyQueryConstraints(constraints?: QueryConstraintType): QueryConstraint[];
-	protected applyQueryConstraints(constraints: QueryConstraintType | undefined, dbRef: DBRef): DBRef;
-	protected applyQueryConstraints(constraints: QueryConstraintType = {}, dbRef?: DBRef) {
+	/**
+	 * The difference, in milliseconds, between the server clock and the local one.
+	 */
+	public get serverTimeOffset(): number {
+		return this._connection.serverTimeOffset;
+	}
+
+	/**
+	 * The database without its schema, for the paths outside of it, e.g. the ones written by Presence.
+	 */
+	public get untyped(): RTDB {
+		return this as RTDB;
+	}
+
+	/**
+	 * Applies the JSON Patch (RFC 6902) operations as a single multi-location update.
+	 * The `add` and `replace` operations write their value, `remove` deletes the data.
+	 * @param operations The JSON Patch operations, e.g. from `watchChanges`
+	 * @param path The path from which the operation paths are relative. Default: the root
+	 */
+	public applyPatch(operations: JsonPatchOperation[], path?: string): Promise<void> {
+		const pathParsed = this.checkPath(path, true);
+
+		return this.doMultiPathUpdateQuery(patchToUpdates(operations, pathParsed));
+	}
+
+	protected applyQueryConstraints(constraints?: QueryConstraintType | string): QueryConstraint[];
+	protected applyQueryConstraints(constraints: QueryConstraintType | string | undefined, dbRef: DBRef): DBRef;
+	protected applyQueryConstraints(constraints: QueryConstraintType | string = {}, dbRef?: DBRef) {
 		const query = [];
 
-		if (typeof constraints !== "object") throw new TypeError("Query Constraint must be an Object!");
+		if (typeof constraints === "string") constraints = parseQueryString(constraints);
+		if (!constraints || typeof constraints !== "object")
+			throw new RTDBError("rtdb/invalid-query", "Query Constraint must be an Object!");
+
+		this.checkQueryConstraints(constraints);
 
 		for (const [method, value] of Object.entries(constraints) as Entry<QueryConstraintType>[]) {
 			switch (method) {
@@ -87,21 +229,25 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 				case "startAfter":
 				case "startAt":
 					if (typeof value !== "object")
-						throw new TypeError(`The value of the "${method}" constraint must be an object!`);
+						throw new RTDBError("rtdb/invalid-query", `The value of the "${method}" constraint must be an object!`);
 					if (value.value === undefined)
-						throw new TypeError(`The value of the "${method}" constraint must be an object containing "value" as key.`);
+						throw new RTDBError(
+							"rtdb/invalid-query",
+							`The value of the "${method}" constraint must be an object containing "value" as key.`
+						);
 					if (
 						typeof value.value !== "string" &&
 						typeof value.value !== "boolean" &&
 						typeof value.value !== "number" &&
 						value.value !== null
 					)
-						throw new TypeError(
+						throw new RTDBError(
+							"rtdb/invalid-query",
 							`The value of the "${method}.value" constraint must be a boolean, number, string or null!`
 						);
 
 					if (value.key === null || (value.key && typeof value.key !== "string"))
-						throw new TypeError(`The value of the "${method}.key" constraint must be a string!`);
+						throw new RTDBError("rtdb/invalid-query", `The value of the "${method}.key" constraint must be a string!`);
 
 					if (dbRef) {
 						dbRef = dbRef[method](value.value, value.key);
@@ -112,7 +258,7 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 				case "limitToFirst":
 				case "limitToLast":
 					if (typeof value !== "number")
-						throw new TypeError(`The value of the "${method}" constraint must be a number!`);
+						throw new RTDBError("rtdb/invalid-query", `The value of the "${method}" constraint must be a number!`);
 
 					if (dbRef) {
 						dbRef = dbRef[method](value);
@@ -122,7 +268,7 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 					break;
 				case "orderByChild":
 					if (typeof value !== "string")
-						throw new TypeError(`The value of the "${method}" constraint must be a string!`);
+						throw new RTDBError("rtdb/invalid-query", `The value of the "${method}" constraint must be a string!`);
 
 					if (dbRef) {
 						dbRef = dbRef[method](value);
@@ -133,7 +279,8 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 				case "orderByKey":
 				case "orderByPriority":
 				case "orderByValue":
-					if (value !== null) throw new TypeError(`The value of the "${method}" constraint must be null!`);
+					if (value !== null)
+						throw new RTDBError("rtdb/invalid-query", `The value of the "${method}" constraint must be null!`);
 
 					if (dbRef) {
 						dbRef = dbRef[method]();
@@ -142,19 +289,201 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 					}
 					break;
 				default:
-					throw new Error(`Query constraint received: "${method}" is invalid!`);
+					throw new RTDBError("rtdb/invalid-query", `Query constraint received: "${method}" is invalid!`);
 			}
 		}
 
 		return dbRef || query;
 	}
 
+	private attachClientListeners() {
+		// Each client emits these events, the union of their emitters is just not callable
+		const client = this.client as TypedEmitter<AdminClientEvents>;
+
+		client.on("deleting-client", () => this.detachSubscriptions()).on("signed-in", () => this.restoreDatabase());
+	}
+
+	private attachSubscription(subscription: SubscriptionEntry): Unsubscription {
+		const { constraints, deliverer, listener, path } = subscription;
+		const callback = deliverer
+			? (snapshot: BothDataSnapshot, previousChildName?: string | null) => deliverer.push(snapshot, previousChildName)
+			: (subscription.callback as SubscriptionCallback);
+
+		if (this.isRest(this._database)) {
+			return this._database.subscribe(path, this.restQueryConstraints(constraints), listener, callback, (error) =>
+				this.cancelSubscription(subscription, error)
+			);
+		}
+
+		if (this.isAdmin(this._database)) {
+			const databaseRef = path ? this._database.ref().child(path) : this._database.ref();
+
+			return this.applyQueryConstraints(constraints, databaseRef).on(listener, callback, (error) =>
+				this.cancelSubscription(subscription, error)
+			);
+		}
+
+		return database[ListenerMap[listener]](
+			query(ref(this._database, path), ...this.applyQueryConstraints(constraints)),
+			callback,
+			(error: Error) => this.cancelSubscription(subscription, error)
+		);
+	}
+
+	/**
+	 * Marks the subscription cancelled by the server and reports the error instead of throwing it
+	 * from the SDK callback, which would crash the host process.
+	 * @param subscription The subscription cancelled
+	 * @param error The error received from the server
+	 */
+	private cancelSubscription(subscription: SubscriptionEntry, errorRaw: Error) {
+		const { errorCallback, id, listener, path } = subscription;
+		const error = toRTDBError(errorRaw, { listener, path });
+
+		// The SDK has already removed the listener
+		subscription.cancelled = true;
+		subscription.unsubscription = undefined;
+		subscription.deliverer?.flush();
+
+		this.emit("subscription-error", { id, listener, path, code: getErrorCode(error), error });
+
+		if (errorCallback) errorCallback(error);
+	}
+
+	/**
+	 * Checks if the Delivery options are valid otherwise throws an error.
+	 * @param options The Delivery options to be checked
+	 * @returns The Delivery options checked
+	 */
+	protected checkDeliveryOptions(options: unknown): DeliveryOptions | undefined {
+		if (options === undefined) return;
+		if (!options || typeof options !== "object")
+			throw new RTDBError("rtdb/invalid-options", "Delivery Options must be an object!");
+
+		const isDuration = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+		const isCount = (value: unknown) => typeof value === "number" && Number.isInteger(value) && value > 0;
+		const delivery = options as DeliveryOptions;
+
+		switch (delivery.mode) {
+			case "debounce":
+				if (!isDuration(delivery.wait))
+					throw new RTDBError("rtdb/invalid-options", "The 'wait' option must be a number >= 0!");
+				break;
+			case "throttle":
+				if (!isDuration(delivery.interval))
+					throw new RTDBError("rtdb/invalid-options", "The 'interval' option must be a number >= 0!");
+				if (!isCount(delivery.limit))
+					throw new RTDBError("rtdb/invalid-options", "The 'limit' option must be an INTEGER > 0!");
+				break;
+			case "batch":
+				if (delivery.interval === undefined && delivery.size === undefined)
+					throw new RTDBError("rtdb/invalid-options", "The batch delivery requires the 'interval' or 'size' option!");
+				if (delivery.interval !== undefined && !isDuration(delivery.interval))
+					throw new RTDBError("rtdb/invalid-options", "The 'interval' option must be a number >= 0!");
+				if (delivery.size !== undefined && !isCount(delivery.size))
+					throw new RTDBError("rtdb/invalid-options", "The 'size' option must be an INTEGER > 0!");
+				break;
+			default:
+				throw new RTDBError("rtdb/invalid-options", "The delivery mode must be 'batch', 'debounce' or 'throttle'!");
+		}
+
+		return delivery;
+	}
+
+	/**
+	 * Checks each path of a multi-location update to match Firebase rules and rejects paths that overlap,
+	 * because Firebase does not allow to write a location and one of its ancestors in the same update.
+	 * Throws an error if does not match.
+	 * @param updates The map of relative paths to values
+	 * @returns The map of normalized paths to values
+	 */
+	protected checkMultiPathUpdate(updates: unknown): MultiPathUpdate {
+		if (!updates || typeof updates !== "object" || Array.isArray(updates))
+			throw new RTDBError("rtdb/invalid-value", "The updates must be an object of 'path: value'!");
+		if (!Object.keys(updates).length)
+			throw new RTDBError("rtdb/invalid-value", "The updates must contain at least one path!");
+
+		const updatesParsed: MultiPathUpdate = {};
+
+		for (const [path, value] of Object.entries(updates)) {
+			const segments = this.checkPath(path, false).split("/");
+			const pathParsed = segments.filter((segment) => segment.trim()).join("/");
+
+			if (!pathParsed)
+				throw new RTDBError("rtdb/invalid-path", `The update path "${path}" must contain at least one key!`, { path });
+			if (segments.slice(1, -1).some((segment) => !segment.trim()))
+				throw new RTDBError("rtdb/invalid-path", `The update path "${path}" must not contain empty keys!`, { path });
+			if (value === undefined)
+				throw new RTDBError("rtdb/invalid-value", `The value at "${path}" must not be undefined, use null to remove!`, {
+					path,
+				});
+			if (pathParsed in updatesParsed)
+				throw new RTDBError("rtdb/invalid-path", `The update path "${path}" is duplicated!`, { path });
+
+			updatesParsed[pathParsed] = this.resolveServerValues(value);
+		}
+
+		for (const path of Object.keys(updatesParsed)) {
+			const segments = path.split("/");
+
+			for (let i = 1; i < segments.length; i++) {
+				const ancestor = segments.slice(0, i).join("/");
+				if (ancestor in updatesParsed)
+					throw new RTDBError(
+						"rtdb/invalid-path",
+						`The update path "${path}" overlaps with its ancestor path "${ancestor}"!`,
+						{ path }
+					);
+			}
+		}
+
+		return updatesParsed;
+	}
+
 	protected checkOnDisconnectQueryMethod(method: unknown): OnDisconnectMethod {
-		if (method === undefined) throw new TypeError("On Disconnect Query Method do not exist!");
-		if (typeof method !== "string") throw new TypeError("On Disconnect Query Method must be a string!");
+		if (method === undefined) throw new RTDBError("rtdb/invalid-method", "On Disconnect Query Method do not exist!");
+		if (typeof method !== "string")
+			throw new RTDBError("rtdb/invalid-method", "On Disconnect Query Method must be a string!");
 		if (method in OnDisconnectMethodMap) return method as OnDisconnectMethod;
 
-		throw new Error(`On Disconnect Query Method must be one of ${printEnumKeys(OnDisconnectMethodMap)}.`);
+		throw new RTDBError(
+			"rtdb/invalid-method",
+			`On Disconnect Query Method must be one of ${printEnumKeys(OnDisconnectMethodMap)}.`,
+			{ method }
+		);
+	}
+
+	/**
+	 * Checks if the Paginate options are valid otherwise throws an error.
+	 * @param options The Paginate options to be checked
+	 * @returns The Paginate options checked
+	 */
+	protected checkPaginateOptions(options: unknown): PaginateOptions {
+		if (options === undefined) return {};
+		if (!options || typeof options !== "object")
+			throw new RTDBError("rtdb/invalid-options", "Paginate Options must be an object!");
+
+		const { cursor, direction, orderBy, pageSize } = options as PaginateOptions;
+
+		if (cursor !== undefined && typeof cursor !== "string")
+			throw new RTDBError("rtdb/invalid-options", "The 'cursor' option must be a string!");
+		if (direction !== undefined && direction !== "forward" && direction !== "backward")
+			throw new RTDBError("rtdb/invalid-options", "The 'direction' option must be 'forward' or 'backward'!");
+		if (
+			orderBy !== undefined &&
+			orderBy !== "key" &&
+			orderBy !== "priority" &&
+			orderBy !== "value" &&
+			!(orderBy && typeof orderBy === "object" && typeof orderBy.child === "string" && orderBy.child)
+		)
+			throw new RTDBError(
+				"rtdb/invalid-options",
+				"The 'orderBy' option must be 'key', 'priority', 'value' or { child: string }!"
+			);
+		if (pageSize !== undefined && !(typeof pageSize === "number" && Number.isInteger(pageSize) && pageSize > 0))
+			throw new RTDBError("rtdb/invalid-options", "The 'pageSize' option must be an INTEGER > 0!");
+
+		return { cursor, direction, orderBy, pageSize };
 	}
 
 	/**
@@ -175,10 +504,25 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 
 	protected checkPath(path: unknown, empty?: boolean) {
 		if (empty && path === undefined) return;
-		if (!empty && path === undefined) throw new TypeError("The PATH do not exist!");
-		if (!empty && !path) throw new TypeError("PATH must be non-empty string!");
-		if (typeof path !== "string") throw new TypeError("PATH must be a string!");
-		if (path.match(/[.#$\[\]]/g)) throw new Error(`PATH must not contain ".", "#", "$", "[", or "]"`);
+		if (!empty && path === undefined) throw new RTDBError("rtdb/invalid-path", "The PATH do not exist!");
+		if (!empty && !path) throw new RTDBError("rtdb/invalid-path", "PATH must be non-empty string!");
+		if (typeof path !== "string") throw new RTDBError("rtdb/invalid-path", "PATH must be a string!");
+		if (path.match(/[.#$\[\]]/g))
+			throw new RTDBError("rtdb/invalid-path", `PATH must not contain ".", "#", "$", "[", or "]"`, { path });
+		if (hasControlCharacter(path))
+			throw new RTDBError("rtdb/invalid-path", "PATH must not contain control characters", { path });
+
+		const segments = path.split("/").filter((segment) => segment);
+
+		if (segments.length > MAX_DEPTH)
+			throw new RTDBError("rtdb/invalid-path", `PATH must not exceed ${MAX_DEPTH} levels of depth`, { path });
+		for (const segment of segments) {
+			if (Buffer.byteLength(segment) > MAX_KEY_BYTES)
+				throw new RTDBError("rtdb/invalid-path", `Each key of the PATH must not exceed ${MAX_KEY_BYTES} bytes`, {
+					path,
+				});
+		}
+
 		return path.trim() || undefined;
 	}
 
@@ -189,14 +533,88 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 	 */
 	protected checkPriority(priority: unknown) {
 		if (priority === null) return priority;
-		if (priority === undefined) throw new TypeError("The Priority do not exist!");
+		if (priority === undefined) throw new RTDBError("rtdb/invalid-priority", "The Priority do not exist!");
 		if (typeof priority === "number" && Number.isInteger(priority) && priority > 0) return priority;
 		if (typeof priority === "string") {
 			const number = Number(priority);
 			if (Number.isInteger(number) && number > 0) return number;
 		}
 
-		throw new TypeError("The priority must be an INTEGER > 0!");
+		throw new RTDBError("rtdb/invalid-priority", "The priority must be an INTEGER > 0!");
+	}
+
+	/**
+	 * Checks that the Query constraints can be combined, as Firebase requires. Throws an error if they cannot.
+	 * @param constraints The Query constraints to be checked
+	 */
+	protected checkQueryConstraints(constraints: QueryConstraintType): void {
+		const methods = Object.keys(constraints) as (keyof QueryConstraintType)[];
+		const orderBy = methods.filter((method) => method.startsWith("orderBy"));
+		const ranges = (["endAt", "endBefore", "equalTo", "startAfter", "startAt"] as const).filter((method) =>
+			methods.includes(method)
+		);
+
+		if (orderBy.length > 1)
+			throw new RTDBError(
+				"rtdb/invalid-query",
+				`Only one orderBy constraint can be used, got "${orderBy.join('", "')}"`
+			);
+		if (methods.includes("limitToFirst") && methods.includes("limitToLast"))
+			throw new RTDBError("rtdb/invalid-query", 'The "limitToFirst" and "limitToLast" constraints cannot be combined');
+		if (methods.includes("equalTo") && ranges.length > 1)
+			throw new RTDBError(
+				"rtdb/invalid-query",
+				'The "equalTo" constraint cannot be combined with "startAt", "startAfter", "endAt" or "endBefore"'
+			);
+		if (methods.includes("startAt") && methods.includes("startAfter"))
+			throw new RTDBError("rtdb/invalid-query", 'The "startAt" and "startAfter" constraints cannot be combined');
+		if (methods.includes("endAt") && methods.includes("endBefore"))
+			throw new RTDBError("rtdb/invalid-query", 'The "endAt" and "endBefore" constraints cannot be combined');
+
+		for (const method of ["limitToFirst", "limitToLast"] as const) {
+			const limit = constraints[method];
+			if (limit !== undefined && !(Number.isInteger(limit) && (limit as number) > 0))
+				throw new RTDBError("rtdb/invalid-query", `The value of the "${method}" constraint must be an INTEGER > 0!`);
+		}
+
+		const orderByChild = constraints.orderByChild;
+
+		if (typeof orderByChild === "string") {
+			if (["$key", "$priority", "$value"].includes(orderByChild))
+				throw new RTDBError(
+					"rtdb/invalid-query",
+					`Use the "orderBy${orderByChild.slice(1, 2).toUpperCase()}${orderByChild.slice(
+						2
+					)}" constraint instead of "orderByChild"`
+				);
+			if (!orderByChild.trim() || orderByChild.match(/[.#$\[\]]/g))
+				throw new RTDBError(
+					"rtdb/invalid-query",
+					'The "orderByChild" path must be non-empty and not contain ".", "#", "$", "[", or "]"'
+				);
+		}
+
+		for (const method of ranges) {
+			const range = constraints[method];
+
+			if (!range || typeof range !== "object") continue;
+
+			if (methods.includes("orderByKey")) {
+				if (typeof range.value !== "string")
+					throw new RTDBError(
+						"rtdb/invalid-query",
+						`With "orderByKey", the value of the "${method}" constraint must be a string`
+					);
+				if (range.key !== undefined)
+					throw new RTDBError("rtdb/invalid-query", `With "orderByKey", the "${method}" constraint cannot have a key`);
+			}
+
+			if (methods.includes("orderByPriority") && typeof range.value === "boolean")
+				throw new RTDBError(
+					"rtdb/invalid-query",
+					`With "orderByPriority", the value of the "${method}" constraint must be a number, string or null`
+				);
+		}
 	}
 
 	/**
@@ -205,188 +623,1414 @@ export class RTDB extends TypedEmitter<RTDBEvents> {
 	 * @returns The Query Method checked
 	 */
 	protected checkQueryMethod(method: unknown): QueryMethod {
-		if (method === undefined) throw new TypeError("Query Method do not exist!");
-		if (typeof method !== "string") throw new TypeError("Query Method must be a string!");
+		if (method === undefined) throw new RTDBError("rtdb/invalid-method", "Query Method do not exist!");
+		if (typeof method !== "string") throw new RTDBError("rtdb/invalid-method", "Query Method must be a string!");
 		if (method in QueryMethodMap) return method as QueryMethod;
 
-		throw new Error(`Query Method must be one of ${printEnumKeys(QueryMethodMap)}.`);
+		throw new RTDBError("rtdb/invalid-method", `Query Method must be one of ${printEnumKeys(QueryMethodMap)}.`, {
+			method,
+		});
 	}
 
-	public doGetQuery(path?: string, constraints?: object): Promise<BothDataSnapshot> {
-		const pathParsed = this.checkPath(path, true);
+	/**
+	 * Checks if the Transaction options are valid otherwise throws an error.
+	 * @param options The Transaction options to be checked
+	 * @returns The Transaction options checked
+	 */
+	protected checkTransactionOptions(options: unknown): TransactionOptions {
+		if (options === undefined) return {};
+		if (!options || typeof options !== "object")
+			throw new RTDBError("rtdb/invalid-options", "Transaction Options must be an object!");
 
-		if (this.isAdmin(this.database)) {
-			const database = pathParsed ? this.database.ref().child(pathParsed) : this.database.ref();
+		const { applyLocally, maxRetries } = options as TransactionOptions;
 
-			return this.applyQueryConstraints(constraints, database).get();
-		}
+		if (applyLocally !== undefined && typeof applyLocally !== "boolean")
+			throw new RTDBError("rtdb/invalid-options", "The 'applyLocally' option must be a boolean!");
+		if (
+			maxRetries !== undefined &&
+			!(typeof maxRetries === "number" && Number.isInteger(maxRetries) && maxRetries >= 0)
+		)
+			throw new RTDBError("rtdb/invalid-options", "The 'maxRetries' option must be an INTEGER >= 0!");
 
-		return get(query(ref(this.database, pathParsed), ...this.applyQueryConstraints(constraints)));
+		return { applyLocally, maxRetries };
 	}
 
-	public doSubscriptionQuery(
-		listener: Listener,
-		callback: (snapshot: BothDataSnapshot, previousChildName?: string | null) => void,
-		path?: string,
-		constraints?: QueryConstraintType
-	): Unsubscription {
-		const pathParsed = this.checkPath(path, true);
+	/**
+	 * Decodes the cursor of a page. Throws an error if the cursor is malformed or comes from another ordering.
+	 * @param cursor The cursor to decode
+	 * @param orderBy How the children are ordered
+	 * @returns The range from which to get the next page
+	 */
+	protected decodeCursor(cursor: string, orderBy: PaginateOrderBy): RangeQuery {
+		let content: unknown;
+
+		try {
+			content = JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+		} catch {
+			throw new RTDBError("rtdb/invalid-cursor", "The cursor is malformed");
+		}
 
-		if (typeof callback !== "function") throw new TypeError("The callback must be a function");
-		if (!(listener in ListenerMap)) throw new Error(`The listener "${listener}" is invalid!`);
+		if (!content || typeof content !== "object" || !("k" in content) || !("o" in content) || !("v" in content))
+			throw new RTDBError("rtdb/invalid-cursor", "The cursor is malformed");
+		if (content.o !== this.orderByTag(orderBy))
+			throw new RTDBError("rtdb/invalid-cursor", "The cursor comes from a query with another ordering");
 
-		if (this.isAdmin(this._database)) {
-			const databaseRef = pathParsed ? this._database.ref().child(pathParsed) : this._database.ref();
+		const { k: key, v: value } = content as { k: string; v: ValueField };
 
-			return this.applyQueryConstraints(constraints, databaseRef).on(listener, callback, (error) => {
-				throw error;
-			});
-		} else {
-			return database[ListenerMap[listener]](
-				query(ref(this._database, pathParsed), ...this.applyQueryConstraints(constraints)),
-				callback,
-				(error: Error) => {
-					throw error;
-				}
-			);
-		}
+		return orderBy === "key" ? { value: key } : { value, key };
 	}
 
-	public doUnSubscriptionQuery(listener: Listener, unsubscriptionCallback?: Unsubscription, path?: string): void {
-		const pathParsed = this.checkPath(path, true);
+	private detachSubscription(subscription: SubscriptionEntry) {
+		const { constraints, listener, path, unsubscription } = subscription;
 
-		if (typeof unsubscriptionCallback !== "function")
-			throw new TypeError("The unsubscriptionCallback must be a function");
-		if (!(listener in ListenerMap)) throw new Error(`The listener "${listener}" is invalid!`);
+		if (!unsubscription) return;
 
 		if (this.isAdmin(this._database)) {
-			const databaseRef = pathParsed ? this._database.ref().child(pathParsed) : this._database.ref();
+			const databaseRef = path ? this._database.ref().child(path) : this._database.ref();
 
-			if (unsubscriptionCallback) databaseRef.off(listener, unsubscriptionCallback);
+			this.applyQueryConstraints(constraints, databaseRef).off(listener, unsubscription);
 		} else {
-			if (unsubscriptionCallback) (unsubscriptionCallback as () => void)();
+			(unsubscription as () => void)();
 		}
+
+		subscription.unsubscription = undefined;
 	}
 
-	public async doWriteQuery<K extends keyof QuerySignature>(method: K, path: string, ...args: QuerySignature[K]) {
-		const methodParsed = this.checkQueryMethod(method);
-		const pathParsed = this.checkPath(path, false);
-		const [value, priority] = args;
+	/**
+	 * The listeners die with the app, so forget their handles to attach them again to the next database.
+	 */
+	private detachSubscriptions() {
+		for (const subscription of this._subscriptions.values()) {
+			// The pending events come from the deleted database, their timers must not keep the process alive
+			subscription.deliverer?.cancel();
+			subscription.unsubscription = undefined;
+		}
+	}
 
-		if (this.isAdmin(this._database)) {
-			switch (methodParsed) {
-				case "update":
-					if (value && typeof value === "object") {
-						await this._database.ref().child(pathParsed)[methodParsed](value);
-						break;
-					}
+	/**
+	 * Checks if the options to export or import a tree are valid otherwise throws an error.
+	 * @param options The options to be checked
+	 * @returns The options checked
+	 */
+	protected checkTreeOptions<T extends ExportTreeOptions | ImportTreeOptions>(options: unknown): T {
+		if (options === undefined) return {} as T;
+		if (!options || typeof options !== "object")
+			throw new RTDBError("rtdb/invalid-options", "Tree Options must be an object!");
 
-					throw new TypeError('The value to write must be an object with "update" query');
-				case "remove":
-					await this._database.ref().child(pathParsed)[methodParsed]();
-					break;
-				case "setPriority":
-					await this._database
-						.ref()
-						.child(pathParsed)
-						.setPriority(this.checkPriority(priority), (err) => {
-							if (err) throw err;
-						});
-					break;
-				case "setWithPriority":
-					await this._database.ref().child(pathParsed)[methodParsed](value, this.checkPriority(priority));
-					break;
-				default:
-					await this._database.ref().child(pathParsed)[methodParsed](value);
-					break;
-			}
-		} else {
-			switch (methodParsed) {
-				case "update":
-					if (value && typeof value === "object") {
-						await database[methodParsed](ref(this._database, pathParsed), value);
-						break;
-					}
+		const { format } = options as T;
 
-					throw new TypeError('The value to write must be an object with "update" query.');
-				case "remove":
-					await database[methodParsed](ref(this._database, pathParsed));
-					break;
-				case "setPriority":
-					await database[methodParsed](ref(this._database, pathParsed), this.checkPriority(priority));
-					break;
-				case "setWithPriority":
-					await database[methodParsed](ref(this._database, pathParsed), value, this.checkPriority(priority));
-					break;
-				default:
-					await database[methodParsed](ref(this._database, pathParsed), value);
-					break;
-			}
+		for (const key of ["batchSize", "chunkSize"] as const) {
+			const size = (options as ExportTreeOptions & ImportTreeOptions)[key];
+			if (size !== undefined && !(typeof size === "number" && Number.isInteger(size) && size > 0))
+				throw new RTDBError("rtdb/invalid-options", `The '${key}' option must be an INTEGER > 0!`);
 		}
-	}
 
-	private getDatabase() {
-		if (!this.client.app || !this.client.clientInitialised)
-			throw new RTDBError("RTDB is called before the Client is initialized");
+		if (format !== undefined && format !== "json" && format !== "ndjson")
+			throw new RTDBError("rtdb/invalid-options", "The 'format' option must be 'json' or 'ndjson'!");
+		if ("mode" in options && options.mode !== undefined && options.mode !== "set" && options.mode !== "merge")
+			throw new RTDBError("rtdb/invalid-options", "The 'mode' option must be 'set' or 'merge'!");
+		if ("end" in options && options.end !== undefined && typeof options.end !== "boolean")
+			throw new RTDBError("rtdb/invalid-options", "The 'end' option must be a boolean!");
 
-		this._database = this.isAdminApp(this.client.app)
-			? adminGetDatabase(this.client.app)
-			: getDatabase(this.client.app);
+		return options as T;
 	}
 
-	public goOffline() {
-		this._database instanceof Database ? goOffline(this._database) : this._database.goOffline();
-	}
+	/**
+	 * Checks the value to be written to match Firebase rules. Throws an error listing all the violations.
+	 * @param value The value to be checked
+	 * @param path The path to which the value is written
+	 * @param updatePaths Whether the top keys of the value are paths, as for `update`. Default: `false`
+	 */
+	protected checkValue(value: unknown, path?: string, updatePaths?: boolean): void {
+		const violations = validateValue(value, { path, updatePaths });
 
-	public goOnline() {
-		this._database instanceof Database ? goOnline(this._database) : this._database.goOnline();
+		if (violations.length) throw new RTDBValidationError(violations);
 	}
 
-	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-	// @ts-ignore
-	protected isAdmin(db: AdminDatabase | Database): db is AdminDatabase {
-		if (this.client.admin === undefined) throw new RTDBError("Property 'admin' missing in App class");
-		return this.client.admin;
+	/**
+	 * Checks if the Watch options are valid otherwise throws an error.
+	 * @param options The Watch options to be checked
+	 * @returns The Watch options checked
+	 */
+	protected checkWatchOptions(options: unknown): WatchOptions {
+		if (options === undefined) return {};
+		if (!options || typeof options !== "object")
+			throw new RTDBError("rtdb/invalid-options", "Watch Options must be an object!");
+
+		const { bufferSize, overflow } = options as WatchOptions;
+
+		if (bufferSize !== undefined && !(typeof bufferSize === "number" && Number.isInteger(bufferSize) && bufferSize > 0))
+			throw new RTDBError("rtdb/invalid-options", "The 'bufferSize' option must be an INTEGER > 0!");
+		if (overflow !== undefined && !(typeof overflow === "string" && overflow in WatchOverflowMap))
+			throw new RTDBError(
+				"rtdb/invalid-options",
+				`The 'overflow' option must be one of ${printEnumKeys(WatchOverflowMap)}.`
+			);
+
+		return { bufferSize, overflow };
 	}
 
-	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-	// @ts-ignore
-	protected isAdminApp(app: App | FirebaseApp): app is App {
-		if (this.client.admin === undefined) throw new RTDBError("Property 'admin' missing in App class");
-		return this.client.admin;
+	/**
+	 * Checks if the Write condition is valid otherwise throws an error.
+	 * @param condition The Write condition to be checked
+	 * @returns The Write condition checked
+	 */
+	protected checkWriteCondition(condition: unknown): WriteCondition {
+		if (!condition || typeof condition !== "object")
+			throw new RTDBError(
+				"rtdb/invalid-argument",
+				"The Write condition must be an object with 'value', 'hash' or 'version'!"
+			);
+
+		const keys = ["value", "hash", "version"].filter((key) => key in condition);
+
+		if (keys.length !== 1)
+			throw new RTDBError(
+				"rtdb/invalid-argument",
+				"The Write condition must contain exactly one of 'value', 'hash' or 'version'!"
+			);
+
+		if ("hash" in condition && typeof condition.hash !== "string")
+			throw new RTDBError("rtdb/invalid-argument", "The 'hash' condition must be a string!");
+		if ("versionField" in condition && typeof condition.versionField !== "string")
+			throw new RTDBError("rtdb/invalid-argument", "The 'versionField' condition must be a string!");
+
+		return condition as WriteCondition;
 	}
 
-	public async setOnDisconnectQuery<K extends keyof OnDisconnectSignature>(
-		method: K,
-		path: string,
-		...args: OnDisconnectSignature[K]
-	) {
-		const methodParsed = this.checkOnDisconnectQueryMethod(method);
+	/**
+	 * Writes the value only if the data at the path still matches the condition, otherwise throws
+	 * a `RTDBConflictError` containing the current value. Runs as a transaction on both SDKs.
+	 * @param path The path to write
+	 * @param condition The value, content hash or version the data must still have
+	 * @param value The value to write, `null` to remove the data
+	 * @returns The snapshot of the data written
+	 */
+	public async doCompareAndSetQuery<P extends RTDBPath<Schema>>(
+		path: P,
+		condition: WriteCondition,
+		value: WriteValue<RTDBValue<Schema, P>> | null
+	): Promise<BothDataSnapshot> {
 		const pathParsed = this.checkPath(path, false);
-		const [value, priority] = args;
+		const conditionParsed = this.checkWriteCondition(condition);
 
-		const databaseRef = this.isAdmin(this._database)
-			? this._database.ref().child(pathParsed).onDisconnect()
-			: onDisconnect(ref(this._database, pathParsed));
+		if (value === undefined)
+			throw new RTDBError("rtdb/invalid-value", "The value must not be undefined, use null to remove!");
 
-		switch (methodParsed) {
-			case "cancel":
-			case "remove":
-				await databaseRef[methodParsed]();
-				break;
-			case "set":
-				await databaseRef[methodParsed](value);
-				break;
-			case "update":
-				if (value && typeof value === "object") {
-					await databaseRef[methodParsed](value);
-					break;
+		this.checkValue(value, pathParsed);
+
+		const valueResolved = this.resolveServerValues(value);
+		const matches = (current: unknown) => {
+			if ("hash" in conditionParsed) return hashValue(current) === conditionParsed.hash;
+			if ("value" in conditionParsed) return hashValue(current) === hashValue(conditionParsed.value);
+
+			const { version, versionField = "version" } = conditionParsed;
+			const currentVersion =
+				current && typeof current === "object" ? (current as Record<string, unknown>)[versionField] : undefined;
+
+			return hashValue(currentVersion) === hashValue(version);
+		};
+
+		// The first run of the SDKs receives the local value, which is kept up to date by listening to the data,
+		// so that the transaction can be aborted on a conflict without writing anything
+		const stopSync = await this.wrapErrors(() => this.syncPath(pathParsed), { path: pathParsed });
+		let conflict = false;
+		let result: TransactionResult;
+
+		try {
+			result = await this.doTransactionQuery(
+				pathParsed,
+				(current) => {
+					conflict = !matches(current);
+					return conflict ? undefined : valueResolved;
+				},
+				{ applyLocally: false }
+			);
+		} finally {
+			stopSync();
+		}
+
+		const { committed, snapshot } = result;
+
+		if (conflict) throw new RTDBConflictError(pathParsed, snapshot.val());
+		if (!committed)
+			throw new RTDBError("rtdb/aborted", `The write at "${pathParsed}" has been aborted`, { path: pathParsed });
+
+		return snapshot;
+	}
+
+	/**
+	 * Reads the data at the path once.
+	 * @param path The path to read
+	 * @param constraints The Query constraints
+	 * @param options Whether to return the content hash of the value, to use with `doCompareAndSetQuery`
+	 * @returns The snapshot, with its hash if requested
+	 */
+	public doGetQuery<P extends RTDBPath<Schema> = never>(
+		path?: P,
+		constraints?: QueryConstraintType | string,
+		options?: GetOptions & { hash?: false }
+	): Promise<RTDBSnapshot<Schema, P>>;
+
+	public doGetQuery<P extends RTDBPath<Schema> = never>(
+		path: P | undefined,
+		constraints: QueryConstraintType | string | undefined,
+		options: GetOptions & { hash: true }
+	): Promise<HashedSnapshot<RTDBSnapshot<Schema, P>>>;
+
+	public async doGetQuery<P extends RTDBPath<Schema> = never>(
+		path?: P,
+		constraints?: QueryConstraintType | string,
+		options: GetOptions = {}
+	): Promise<RTDBSnapshot<Schema, P> | HashedSnapshot<RTDBSnapshot<Schema, P>>> {
+		const pathParsed = this.checkPath(path, true);
+
+		if (!options || typeof options !== "object")
+			throw new RTDBError("rtdb/invalid-options", "Get Options must be an object!");
+
+		await this.dryRunRead(pathParsed ?? "", constraints);
+
+		const snapshot = await this.wrapErrors<BothDataSnapshot>(
+			() => {
+				if (this.isRest(this._database)) return this._database.get(pathParsed, this.restQueryConstraints(constraints));
+
+				if (this.isAdmin(this._database)) {
+					const database = pathParsed ? this._database.ref().child(pathParsed) : this._database.ref();
+
+					return this.applyQueryConstraints(constraints, database).get();
 				}
 
-				throw new TypeError("The value must be an object with 'update' query.");
-			case "setWithPriority":
-				await databaseRef[methodParsed](value, this.checkPriority(priority));
-				break;
+				return get(query(ref(this._database, pathParsed), ...this.applyQueryConstraints(constraints)));
+			},
+			{ path: pathParsed }
+		);
+
+		if (!options.hash) return snapshot as RTDBSnapshot<Schema, P>;
+
+		return { snapshot: snapshot as RTDBSnapshot<Schema, P>, hash: hashValue(snapshot.exportVal()) };
+	}
+
+	/**
+	 * Atomically writes several locations at once. Each key of the map is a path relative to `path`,
+	 * a `null` value removes the data at that location.
+	 * @param updates The map of relative paths to values
+	 * @param path The path from which the update paths are relative. Default: the root
+	 */
+	public async doMultiPathUpdateQuery(updates: MultiPathUpdate, path?: string): Promise<void> {
+		const pathParsed = this.checkPath(path, true);
+		const updatesParsed = this.checkMultiPathUpdate(updates);
+
+		this.checkValue(updatesParsed, pathParsed, true);
+
+		await this.dryRunWrite("update", pathParsed ?? "", [updatesParsed]);
+
+		return this.wrapErrors(
+			() => {
+				if (this.isRest(this._database)) return this._database.write("update", pathParsed ?? "", updatesParsed);
+
+				if (this.isAdmin(this._database)) {
+					const databaseRef = pathParsed ? this._database.ref().child(pathParsed) : this._database.ref();
+
+					return databaseRef.update(updatesParsed);
+				}
+
+				return database.update(ref(this._database, pathParsed), updatesParsed);
+			},
+			{ method: "update", path: pathParsed }
+		);
+	}
+
+	/**
+	 * Subscribes to the data at the path. The events can be debounced, throttled or batched with `delivery`,
+	 * the pending events are delivered when unsubscribing.
+	 * @param listener The listener to subscribe to
+	 * @param callback The function called with the snapshots, or with the arrays of events if batched
+	 * @param path The path to subscribe to
+	 * @param constraints The Query constraints
+	 * @param errorCallback The function called if the subscription is cancelled by the server
+	 * @param delivery How the events are delivered. Default: as they are received
+	 * @returns The unsubscription callback
+	 */
+	public doSubscriptionQuery<L extends Listener, P extends RTDBPath<Schema> = never>(
+		listener: L,
+		callback: SubscriptionCallback<RTDBListenerSnapshot<Schema, L, P>>,
+		path?: P,
+		constraints?: QueryConstraintType | string,
+		errorCallback?: SubscriptionErrorCallback,
+		delivery?: DebounceDelivery | ThrottleDelivery
+	): Unsubscription;
+
+	public doSubscriptionQuery<L extends Listener, P extends RTDBPath<Schema> = never>(
+		listener: L,
+		callback: BatchCallback<RTDBListenerSnapshot<Schema, L, P>>,
+		path: P | undefined,
+		constraints: QueryConstraintType | string | undefined,
+		errorCallback: SubscriptionErrorCallback | undefined,
+		delivery: BatchDelivery
+	): Unsubscription;
+
+	public doSubscriptionQuery(
+		listener: Listener,
+		callback: SubscriptionCallback | BatchCallback,
+		path?: string,
+		constraints?: QueryConstraintType | string,
+		errorCallback?: SubscriptionErrorCallback,
+		delivery?: DeliveryOptions
+	): Unsubscription {
+		const pathParsed = this.checkPath(path, true);
+		const deliveryParsed = this.checkDeliveryOptions(delivery);
+
+		if (typeof callback !== "function") throw new RTDBError("rtdb/invalid-argument", "The callback must be a function");
+		if (errorCallback !== undefined && typeof errorCallback !== "function")
+			throw new RTDBError("rtdb/invalid-argument", "The errorCallback must be a function");
+		if (!(listener in ListenerMap))
+			throw new RTDBError("rtdb/invalid-listener", `The listener "${listener}" is invalid!`, { listener });
+
+		const id = String(++this._subscriptionId);
+		const subscription: SubscriptionEntry = {
+			id,
+			listener,
+			path: pathParsed,
+			constraints: typeof constraints === "string" ? parseQueryString(constraints) : constraints,
+			callback,
+			errorCallback,
+			delivery: deliveryParsed,
+			deliverer: deliveryParsed && new Delivery(callback, deliveryParsed),
+			cancelled: false,
+		};
+
+		subscription.unsubscription = this.attachSubscription(subscription);
+		// The client SDK handle changes on each re-subscription, so give the caller one that is stable
+		subscription.handle = this.isAdmin(this._database) ? subscription.unsubscription : () => this.unsubscribe(id);
+		this._subscriptions.set(id, subscription);
+
+		return subscription.handle;
+	}
+
+	/**
+	 * Atomically modifies the data at the path. The update function receives the current value and returns
+	 * the new value to write, or `undefined` to abort the transaction.
+	 * @param path The path to modify
+	 * @param transactionUpdate The function that computes the new value from the current one
+	 * @param options The Transaction options
+	 * @returns A promise resolved with the committed flag and the resulting snapshot
+	 */
+	public async doTransactionQuery(
+		path: string,
+		transactionUpdate: TransactionUpdate,
+		options?: TransactionOptions
+	): Promise<TransactionResult> {
+		const pathParsed = this.checkPath(path, false);
+		const { applyLocally = true, maxRetries } = this.checkTransactionOptions(options);
+
+		if (typeof transactionUpdate !== "function")
+			throw new RTDBError("rtdb/invalid-argument", "The transactionUpdate must be a function");
+
+		// The SDKs do not expose the retry limit, so abort once the update function has run too many times.
+		// Their first run is on the local cache, `null` if the data is not cached, so it is not counted.
+		let attempts = 0;
+		const localAttempts = this.isRest(this._database) ? 0 : 1;
+		const update: TransactionUpdate = (currentData) => {
+			if (maxRetries !== undefined && attempts++ > maxRetries + localAttempts) return;
+			return transactionUpdate(currentData);
+		};
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isRest(this._database)) return this._database.transaction(pathParsed, update);
+
+				if (this.isAdmin(this._database)) {
+					const { committed, snapshot } = await this._database
+						.ref()
+						.child(pathParsed)
+						.transaction(update, undefined, applyLocally);
+
+					return { committed, snapshot };
+				}
+
+				const { committed, snapshot } = await runTransaction(ref(this._database, pathParsed), update, { applyLocally });
+
+				return { committed, snapshot };
+			},
+			{ method: "transaction", path: pathParsed }
+		);
+	}
+
+	public doUnSubscriptionQuery(listener: Listener, unsubscriptionCallback?: Unsubscription, path?: string): void {
+		const pathParsed = this.checkPath(path, true);
+
+		if (typeof unsubscriptionCallback !== "function")
+			throw new RTDBError("rtdb/invalid-argument", "The unsubscriptionCallback must be a function");
+		if (!(listener in ListenerMap))
+			throw new RTDBError("rtdb/invalid-listener", `The listener "${listener}" is invalid!`, { listener });
+
+		for (const subscription of this._subscriptions.values()) {
+			if (
+				subscription.handle === unsubscriptionCallback &&
+				subscription.listener === listener &&
+				subscription.path === pathParsed
+			) {
+				this.unsubscribe(subscription.id);
+				return;
+			}
+		}
+
+		if (this.isAdmin(this._database)) {
+			const databaseRef = pathParsed ? this._database.ref().child(pathParsed) : this._database.ref();
+
+			if (unsubscriptionCallback) databaseRef.off(listener, unsubscriptionCallback);
+		} else {
+			if (unsubscriptionCallback) (unsubscriptionCallback as () => void)();
+		}
+	}
+
+	public async doWriteQuery<K extends keyof QuerySignature, P extends RTDBPath<Schema>>(
+		method: K,
+		path: P,
+		...args: QuerySignature<RTDBValue<Schema, P>>[K]
+	) {
+		const methodParsed = this.checkQueryMethod(method);
+		const pathParsed = this.checkPath(path, false);
+
+		switch (methodParsed) {
+			case "push":
+				this.checkValue(args[0], `${pathParsed}/<push-key>`);
+				break;
+			case "set":
+			case "setWithPriority":
+				this.checkValue(args[0], pathParsed);
+				break;
+			case "update":
+				this.checkValue(args[0], pathParsed, true);
+				break;
+		}
+
+		await this.dryRunWrite(methodParsed, pathParsed, args);
+
+		const send = () =>
+			this.wrapErrors(() => this.writeQuery(methodParsed, pathParsed, args), {
+				method: methodParsed,
+				path: pathParsed,
+			});
+
+		if (!this._outbox) return send();
+
+		// Replayed after being received by the server, an increment would be added twice
+		if (hasIncrement(args[0])) {
+			await this._outboxReplay;
+			return send();
+		}
+
+		// The key is generated now so that the write of a child replayed twice is not duplicated
+		const write =
+			methodParsed === "push"
+				? this._outbox.record({ method: "set", path: `${pathParsed}/${this.generateKey(pathParsed)}`, args })
+				: this._outbox.record({ method: methodParsed, path: pathParsed, args });
+
+		this.emit("outbox-write", { id: write.id, method: write.method, path: write.path, status: "queued" });
+
+		await this._outboxReplay;
+		return this.sendOutboxWrite(write);
+	}
+
+	/**
+	 * Checks the read against the security rules, if given in the options, otherwise throws an error
+	 * naming the rule denying it. Logs a warning if the query orders by a child not indexed.
+	 * @param path The path to read
+	 * @param constraints The Query constraints
+	 */
+	private async dryRunRead(path: string, constraints: QueryConstraintType | string = {}) {
+		if (!this._rules) return;
+
+		const auth = await this.getRulesAuth();
+
+		if (auth === undefined) return;
+
+		const constraintsParsed = typeof constraints === "string" ? parseQueryString(constraints) : constraints;
+		const { orderByChild } = constraintsParsed;
+		const result = this._rules.evaluateRead(path, constraintsParsed, { auth, data: this._rulesOptions?.data?.() });
+
+		if (!result.allowed) throw new RTDBRulesError("read", result);
+
+		if (orderByChild !== undefined && !this._rules.indexOn(path).includes(orderByChild))
+			this.emit("log", `Using an unspecified index, consider adding ".indexOn": "${orderByChild}" at /${path}`);
+	}
+
+	/**
+	 * Checks the write against the security rules, if given in the options, otherwise throws an error
+	 * naming the rule denying it.
+	 * @param method The method of the write
+	 * @param path The path to write
+	 * @param args The arguments of the write
+	 */
+	private async dryRunWrite(method: QueryMethod, path: string, args: unknown[]) {
+		if (!this._rules) return;
+
+		const auth = await this.getRulesAuth();
+
+		if (auth === undefined) return;
+
+		const result = this._rules.evaluateWrite(method, path, args, { auth, data: this._rulesOptions?.data?.() });
+
+		if (!result.allowed) throw new RTDBRulesError("write", result);
+	}
+
+	/**
+	 * Encodes the position of the child in an opaque cursor.
+	 * @param orderBy How the children are ordered
+	 * @param snapshot The child from which the next page starts
+	 * @returns The cursor of the child
+	 */
+	protected encodeCursor(orderBy: PaginateOrderBy, snapshot: BothDataSnapshot): string {
+		const value =
+			orderBy === "key"
+				? snapshot.key
+				: orderBy === "priority"
+				? getPriority(snapshot)
+				: orderBy === "value"
+				? snapshot.val()
+				: snapshot.child(orderBy.child).val();
+
+		if (value !== null && typeof value === "object")
+			throw new RTDBError(
+				"rtdb/invalid-cursor",
+				`Unable to paginate after the child "${snapshot.key}" because its ordering value is an object`
+			);
+
+		return Buffer.from(JSON.stringify({ o: this.orderByTag(orderBy), k: snapshot.key, v: value })).toString("base64");
+	}
+
+	/**
+	 * Estimates the current time of the server from the local clock and the server time offset.
+	 * @returns The estimated server time, in milliseconds since the epoch
+	 */
+	public estimatedServerTime(): number {
+		return Date.now() + this.serverTimeOffset;
+	}
+
+	/**
+	 * Exports the children of the path to the writable, chunk by chunk to not load the whole tree in memory.
+	 * The priorities are kept as `exportVal()` does.
+	 * @param path The path to export
+	 * @param writable The stream in which to write the tree
+	 * @param options The Export options
+	 */
+	public async exportTree<P extends RTDBPath<Schema>>(
+		path: P | undefined,
+		writable: Writable,
+		options?: ExportTreeOptions
+	): Promise<void> {
+		const pathParsed = this.checkPath(path, true);
+		const { chunkSize = 100, end = true, format = "json" } = this.checkTreeOptions<ExportTreeOptions>(options);
+
+		if (!(writable instanceof Writable))
+			throw new RTDBError("rtdb/invalid-argument", "The writable must be a Writable stream");
+
+		const write = async (chunk: string) => {
+			if (!writable.write(chunk)) await once(writable, "drain");
+		};
+
+		let count = 0;
+		let lastKey: string | undefined;
+
+		if (format === "json") await write("{");
+
+		for (;;) {
+			const constraints: QueryConstraintType = { orderByKey: null, limitToFirst: chunkSize };
+
+			if (lastKey !== undefined) constraints.startAfter = { value: lastKey };
+
+			const snapshot: BothDataSnapshot = await this.doGetQuery(path, constraints);
+			const lines: string[] = [];
+
+			snapshot.forEach((child: BothDataSnapshot) => {
+				const key = child.key as string;
+				const value = child.exportVal();
+
+				lines.push(
+					format === "json"
+						? `${count + lines.length ? "," : ""}${JSON.stringify(key)}:${JSON.stringify(value)}`
+						: `${JSON.stringify({ key, value })}\n`
+				);
+				lastKey = key;
+			});
+
+			if (lines.length) await write(lines.join(""));
+
+			count += lines.length;
+			this.emit("export-progress", { path: pathParsed, count });
+
+			if (lines.length < chunkSize) break;
+		}
+
+		if (format === "json") await write("}");
+		if (end) writable.end();
+	}
+
+	/**
+	 * Generates the key of a new child, the same way `push` does.
+	 * @param path The path of the parent
+	 * @returns The key generated
+	 */
+	private generateKey(path: string): string {
+		const key = this.isRest(this._database)
+			? this._database.generateKey()
+			: this.isAdmin(this._database)
+			? this._database.ref().child(path).push().key
+			: database.push(ref(this._database, path)).key;
+
+		if (!key) throw new RTDBError("rtdb/invalid-path", `Unable to generate a key at "${path}"`, { path });
+
+		return key;
+	}
+
+	private getDatabase() {
+		if (!this.client.app || !this.client.clientInitialised)
+			throw new RTDBError("rtdb/not-initialized", "RTDB is called before the Client is initialized");
+
+		if (this._restOptions) {
+			const url = this._restOptions.url ?? this.client.app.options.databaseURL;
+
+			if (!url)
+				throw new RTDBError(
+					"rtdb/invalid-options",
+					"The database URL is missing, set it in the app config or the REST options"
+				);
+
+			this._database = new RestDatabase(url, this.client.app, () => this.getRestToken());
+			return;
+		}
+
+		const emulator = this.client.emulator?.database;
+
+		if (this.isAdminApp(this.client.app)) {
+			if (!emulator) {
+				this._database = adminGetDatabase(this.client.app);
+				return;
+			}
+
+			// The admin SDK connects to the emulator when the database URL is not secure
+			const namespace = this.getDatabaseNamespace(this.client.app);
+
+			this._database = adminGetDatabaseWithUrl(
+				`http://${emulator.host}:${emulator.port}?ns=${namespace}`,
+				this.client.app
+			);
+			return;
+		}
+
+		const firebaseDatabase = getDatabase(this.client.app);
+
+		// The emulator can only be set once, before the first operation on the database
+		if (emulator && !emulatedDatabases.has(firebaseDatabase)) {
+			connectDatabaseEmulator(firebaseDatabase, emulator.host, emulator.port);
+			emulatedDatabases.add(firebaseDatabase);
+		}
+
+		this._database = firebaseDatabase;
+	}
+
+	/**
+	 * Gets the namespace of the database, the name of the database in the emulator.
+	 * @param app The admin app
+	 * @returns The namespace from the database URL, otherwise the default one of the project
+	 */
+	private getDatabaseNamespace(app: App): string {
+		const { databaseURL, projectId } = app.options;
+
+		if (!databaseURL) return `${projectId}-default-rtdb`;
+
+		const url = new URL(databaseURL);
+
+		return url.searchParams.get("ns") ?? url.hostname.split(".")[0];
+	}
+
+	/**
+	 * Gets the token authenticating the REST requests: the one of the options, the access token of the
+	 * admin credential or the ID token of the signed in user.
+	 */
+	private async getRestToken(): Promise<RestToken | undefined> {
+		const auth = this._restOptions?.auth;
+
+		if (auth !== undefined) {
+			const token = typeof auth === "function" ? await auth() : auth;
+			return token ? { param: "auth", token } : undefined;
+		}
+
+		const app = this.client.app;
+
+		if (!app) return;
+
+		if (this.isAdminApp(app)) {
+			const credential = app.options.credential;
+			return credential
+				? { param: "access_token", token: (await credential.getAccessToken()).access_token }
+				: undefined;
+		}
+
+		const token = await getAuth(app).currentUser?.getIdToken();
+
+		return token ? { param: "auth", token } : undefined;
+	}
+
+	/**
+	 * Gets the `auth` variable of the security rules: the one of the options or the signed in user.
+	 * @returns The auth, `undefined` with the Admin SDK which is not subject to the rules
+	 */
+	private async getRulesAuth(): Promise<RuleAuth | null | undefined> {
+		const auth = this._rulesOptions?.auth;
+
+		if (auth !== undefined) return typeof auth === "function" ? auth() : auth;
+
+		const app = this.client.app;
+
+		if (!app || this.isAdminApp(app)) return;
+
+		const user = getAuth(app).currentUser;
+
+		if (!user) return null;
+
+		const { claims, signInProvider } = await user.getIdTokenResult();
+
+		return { uid: user.uid, provider: signInProvider ?? undefined, token: claims };
+	}
+
+	public goOffline() {
+		this._database instanceof Database ? goOffline(this._database) : this._database.goOffline();
+	}
+
+	public goOnline() {
+		this._database instanceof Database ? goOnline(this._database) : this._database.goOnline();
+	}
+
+	/**
+	 * Imports the children from the readable to the path, exported by {@link RTDB.exportTree}.
+	 * The children are written in batches of `update`. With the `set` mode, the data replaced is removed
+	 * once the first batch is checked, against the rules too if given.
+	 * @param path The path in which to import the tree
+	 * @param readable The stream from which to read the tree
+	 * @param options The Import options
+	 */
+	public async importTree<P extends RTDBPath<Schema>>(
+		path: P | undefined,
+		readable: Readable,
+		options?: ImportTreeOptions
+	): Promise<void> {
+		const pathParsed = this.checkPath(path, true);
+		const { batchSize = 100, format = "json", mode = "set" } = this.checkTreeOptions<ImportTreeOptions>(options);
+
+		if (!(readable instanceof Readable))
+			throw new RTDBError("rtdb/invalid-argument", "The readable must be a Readable stream");
+
+		let batch: Record<string, unknown> = {};
+		let batchLength = 0;
+		let count = 0;
+		let removed = mode !== "set";
+
+		const remove = async () => {
+			await this.dryRunWrite("remove", pathParsed ?? "", []);
+			await this.wrapErrors(
+				async () => {
+					if (this.isRest(this._database)) {
+						await this._database.write("remove", pathParsed ?? "");
+					} else if (this.isAdmin(this._database)) {
+						await (pathParsed ? this._database.ref().child(pathParsed) : this._database.ref()).remove();
+					} else {
+						await database.remove(ref(this._database, pathParsed));
+					}
+				},
+				{ method: "remove", path: pathParsed }
+			);
+
+			removed = true;
+		};
+
+		const flush = async () => {
+			if (!batchLength) return;
+
+			// Nothing is removed if the first batch cannot be written
+			if (!removed) {
+				const updatesParsed = this.checkMultiPathUpdate(batch);
+
+				this.checkValue(updatesParsed, pathParsed, true);
+				await this.dryRunWrite("update", pathParsed ?? "", [updatesParsed]);
+				await remove();
+			}
+
+			await this.doMultiPathUpdateQuery(batch, pathParsed);
+
+			count += batchLength;
+			batch = {};
+			batchLength = 0;
+			this.emit("import-progress", { path: pathParsed, count });
+		};
+
+		for await (const [key, value] of this.readTree(readable, format)) {
+			batch[key] = value;
+			batchLength++;
+
+			if (batchLength >= batchSize) await flush();
+		}
+
+		await flush();
+
+		// An empty tree still replaces the data
+		if (!removed) await remove();
+	}
+
+	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+	// @ts-ignore
+	protected isAdmin(db: AdminDatabase | Database | RestDatabase): db is AdminDatabase {
+		if (this.client.admin === undefined)
+			throw new RTDBError("rtdb/not-initialized", "Property 'admin' missing in App class");
+		return this.client.admin && !(db instanceof RestDatabase);
+	}
+
+	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+	// @ts-ignore
+	protected isAdminApp(app: App | FirebaseApp): app is App {
+		if (this.client.admin === undefined)
+			throw new RTDBError("rtdb/not-initialized", "Property 'admin' missing in App class");
+		return this.client.admin;
+	}
+
+	protected isRest(db: AdminDatabase | Database | RestDatabase): db is RestDatabase {
+		return db instanceof RestDatabase;
+	}
+
+	/**
+	 * Gets all the pages of the children at the path, one after the other.
+	 * @param path The path of the children
+	 * @param options The Paginate options
+	 * @returns An async iterator of the pages
+	 */
+	public async *iteratePages<P extends RTDBPath<Schema> = never>(
+		path?: P,
+		options?: PaginateOptions
+	): AsyncGenerator<Page<ChildData<RTDBValue<Schema, P>>>, void> {
+		let cursor = options?.cursor;
+		let hasMore = true;
+
+		while (hasMore) {
+			const page = await this.paginate(path, { ...options, cursor });
+
+			yield page;
+
+			cursor = page.cursor;
+			hasMore = page.hasMore;
+		}
+	}
+
+	/**
+	 * Gets the subscriptions currently registered by this RTDB.
+	 * @returns The list of active subscriptions
+	 */
+	public listSubscriptions(): Subscription[] {
+		return Array.from(
+			this._subscriptions.values(),
+			({ callback, cancelled, constraints, delivery, errorCallback, id, listener, path }) => ({
+				id,
+				listener,
+				path,
+				constraints,
+				callback,
+				errorCallback,
+				delivery,
+				cancelled,
+			})
+		);
+	}
+
+	private orderByConstraint(orderBy: PaginateOrderBy): QueryConstraintType {
+		switch (orderBy) {
+			case "key":
+				return { orderByKey: null };
+			case "priority":
+				return { orderByPriority: null };
+			case "value":
+				return { orderByValue: null };
+			default:
+				return { orderByChild: orderBy.child };
+		}
+	}
+
+	private orderByTag(orderBy: PaginateOrderBy): string {
+		return typeof orderBy === "object" ? `child:${orderBy.child}` : orderBy;
+	}
+
+	/**
+	 * Gets a page of the children at the path. The next page is got by giving the cursor of this one.
+	 * Children with the same ordering value are ordered by key, as Firebase does.
+	 * @param path The path of the children
+	 * @param options The Paginate options
+	 * @returns A promise resolved with the page
+	 */
+	public async paginate<P extends RTDBPath<Schema> = never>(
+		path?: P,
+		options?: PaginateOptions
+	): Promise<Page<ChildData<RTDBValue<Schema, P>>>> {
+		const { cursor, direction = "forward", orderBy = "key", pageSize = 50 } = this.checkPaginateOptions(options);
+		const constraints = this.orderByConstraint(orderBy);
+		const range = cursor ? this.decodeCursor(cursor, orderBy) : undefined;
+
+		// One more child is got to know if there is a next page
+		if (direction === "forward") {
+			constraints.limitToFirst = pageSize + 1;
+			if (range) constraints.startAfter = range;
+		} else {
+			constraints.limitToLast = pageSize + 1;
+			if (range) constraints.endBefore = range;
+		}
+
+		const snapshot: BothDataSnapshot = await this.doGetQuery(path, constraints);
+		const children: BothDataSnapshot[] = [];
+
+		snapshot.forEach((child: BothDataSnapshot) => {
+			children.push(child);
+		});
+
+		const hasMore = children.length > pageSize;
+
+		if (hasMore) direction === "forward" ? children.pop() : children.shift();
+
+		const edge = direction === "forward" ? children[children.length - 1] : children[0];
+
+		return {
+			items: children.map((child) => ({ key: child.key as string, value: child.val() })),
+			cursor: edge && this.encodeCursor(orderBy, edge),
+			hasMore,
+		};
+	}
+
+	/**
+	 * Reads the children of a tree exported by {@link RTDB.exportTree}.
+	 * @param readable The stream from which to read the tree
+	 * @param format The format of the tree
+	 * @returns An async iterator of the children
+	 */
+	private async *readTree(readable: Readable, format: TreeFormat): AsyncGenerator<[string, unknown]> {
+		if (format === "ndjson") {
+			for await (const line of createInterface({ input: readable, crlfDelay: Infinity })) {
+				if (!line.trim()) continue;
+
+				const child = JSON.parse(line);
+
+				if (!child || typeof child !== "object" || typeof child.key !== "string")
+					throw new RTDBError(
+						"rtdb/invalid-import",
+						`The line "${line}" must be an object containing "key" and "value"`
+					);
+
+				yield [child.key, child.value];
+			}
+
+			return;
+		}
+
+		// Unlike ndjson, a json document can only be parsed once read entirely
+		let content = "";
+
+		readable.setEncoding("utf8");
+		for await (const chunk of readable) content += chunk;
+
+		const tree = JSON.parse(content);
+
+		if (!tree || typeof tree !== "object" || Array.isArray(tree))
+			throw new RTDBError("rtdb/invalid-import", "The tree to import must be an object of children");
+
+		for (const child of Object.entries(tree)) yield child;
+	}
+
+	/**
+	 * Sends again the writes recorded by the previous process. They are all issued at once,
+	 * the SDK keeps their order.
+	 * @param writes The writes to replay
+	 */
+	private replayOutbox(writes: OutboxWrite[]) {
+		for (const write of writes) {
+			this.emit("outbox-write", { id: write.id, method: write.method, path: write.path, status: "replaying" });
+			// Already reported by the 'failed' status
+			this.sendOutboxWrite(write).catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Recursively replaces the server value placeholders by the server values of the SDK in use.
+	 * Throws an error if a placeholder is malformed.
+	 * @param value The value to be written
+	 * @returns The value with the server values resolved
+	 */
+	protected resolveServerValues(value: unknown): unknown {
+		if (!value || typeof value !== "object") return value;
+		if (Array.isArray(value)) return value.map((item) => this.resolveServerValues(item));
+
+		if (".sv" in value) {
+			const placeholder = (value as ServerValuePlaceholder)[".sv"];
+
+			if (Object.keys(value).length !== 1)
+				throw new RTDBError("rtdb/invalid-value", "A server value placeholder must only contain '.sv'!");
+
+			// The REST API resolves the placeholders itself
+			if (placeholder === "timestamp")
+				return this.isRest(this._database)
+					? value
+					: this.isAdmin(this._database)
+					? AdminServerValue.TIMESTAMP
+					: serverTimestamp();
+
+			if (placeholder && typeof placeholder === "object" && typeof placeholder.increment === "number")
+				return this.isRest(this._database)
+					? value
+					: this.isAdmin(this._database)
+					? AdminServerValue.increment(placeholder.increment)
+					: increment(placeholder.increment);
+
+			throw new RTDBError(
+				"rtdb/invalid-value",
+				`The server value placeholder must be "timestamp" or { "increment": number }!`
+			);
+		}
+
+		return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, this.resolveServerValues(child)]));
+	}
+
+	/**
+	 * Gets the database again if the client has been signed in with a new app, then re-attaches
+	 * the registered subscriptions that are no longer attached, like those cancelled while signed out.
+	 */
+	private restoreDatabase() {
+		if (!this.client.app) return;
+
+		const databaseChanged = this.client.app !== this._database.app;
+
+		if (databaseChanged) {
+			this._connection.removeConnectionState();
+			this.getDatabase();
+			this._connection = new Connection(this.untyped, this._serverTimeOptions);
+		}
+
+		for (const subscription of this._subscriptions.values()) {
+			if (!databaseChanged && subscription.unsubscription) continue;
+
+			subscription.cancelled = false;
+			subscription.unsubscription = this.attachSubscription(subscription);
+		}
+	}
+
+	/**
+	 * Checks the Query constraints for the REST API, which receives them as query parameters.
+	 * @param constraints The Query constraints or the query string
+	 * @returns The Query constraints checked
+	 */
+	private restQueryConstraints(constraints: QueryConstraintType | string = {}): QueryConstraintType {
+		const constraintsParsed = typeof constraints === "string" ? parseQueryString(constraints) : constraints;
+
+		// The constraints of the SDK are only built to check them
+		this.applyQueryConstraints(constraintsParsed);
+
+		return constraintsParsed;
+	}
+
+	/**
+	 * Sends the write recorded in the outbox and acknowledges it once the server has received or rejected it.
+	 * @param write The write recorded
+	 */
+	private async sendOutboxWrite(write: OutboxWrite) {
+		const { args, id, method, path } = write;
+		const outbox = this._outbox as Outbox;
+
+		try {
+			await this.wrapErrors(() => this.writeQuery(method, path, args), { method, path });
+		} catch (error) {
+			// Rejected by the server, replaying would fail again
+			outbox.acknowledge(id);
+			this.emit("outbox-write", { id, method, path, status: "failed", error: error as Error });
+			throw error;
+		}
+
+		outbox.acknowledge(id);
+		this.emit("outbox-write", { id, method, path, status: "written" });
+	}
+
+	public async setOnDisconnectQuery<K extends keyof OnDisconnectSignature>(
+		method: K,
+		path: string,
+		...args: OnDisconnectSignature[K]
+	) {
+		const methodParsed = this.checkOnDisconnectQueryMethod(method);
+		const pathParsed = this.checkPath(path, false);
+		const [valueRaw, priority] = args;
+
+		if (methodParsed !== "cancel" && methodParsed !== "remove")
+			this.checkValue(valueRaw, pathParsed, methodParsed === "update");
+
+		const value = this.resolveServerValues(valueRaw);
+
+		if (this.isRest(this._database))
+			throw new RTDBError("rtdb/unsupported", "onDisconnect is not supported by the REST API", {
+				method: methodParsed,
+				path: pathParsed,
+			});
+
+		const databaseRef = this.isAdmin(this._database)
+			? this._database.ref().child(pathParsed).onDisconnect()
+			: onDisconnect(ref(this._database, pathParsed));
+
+		await this.wrapErrors(
+			async () => {
+				switch (methodParsed) {
+					case "cancel":
+					case "remove":
+						await databaseRef[methodParsed]();
+						break;
+					case "set":
+						await databaseRef[methodParsed](value);
+						break;
+					case "update":
+						if (value && typeof value === "object") {
+							await databaseRef[methodParsed](value);
+							break;
+						}
+
+						throw new RTDBError("rtdb/invalid-value", "The value must be an object with 'update' query.", {
+							method: methodParsed,
+							path: pathParsed,
+						});
+					case "setWithPriority":
+						await databaseRef[methodParsed](value, this.checkPriority(priority));
+						break;
+				}
+			},
+			{ method: methodParsed, path: pathParsed }
+		);
+	}
+
+	/**
+	 * Listens to the data at the path, so that the local value of the SDKs is the one of the server,
+	 * e.g. for the first run of a transaction. The REST API has no local value.
+	 * @param pathParsed The path to listen to
+	 * @returns A promise resolved, once the data has been received, with the function removing the listener
+	 */
+	private syncPath(pathParsed: string): Promise<() => void> {
+		const db = this._database;
+
+		return new Promise((resolve, reject) => {
+			if (this.isRest(db)) return resolve(() => undefined);
+
+			if (this.isAdmin(db)) {
+				const reference = db.ref().child(pathParsed);
+				const callback = () => resolve(() => reference.off("value", callback));
+
+				reference.on("value", callback, reject);
+				return;
+			}
+
+			const unsubscribe: Unsubscribe = onValue(ref(db, pathParsed), () => resolve(() => unsubscribe()), reject);
+		});
+	}
+
+	/**
+	 * Removes the subscription from the database and the registry.
+	 * @param id The ID of the subscription
+	 * @returns `true` if the subscription existed, `false` otherwise
+	 */
+	public unsubscribe(id: string): boolean {
+		const subscription = this._subscriptions.get(id);
+
+		if (!subscription) return false;
+
+		this.detachSubscription(subscription);
+		this._subscriptions.delete(id);
+		subscription.deliverer?.flush();
+
+		return true;
+	}
+
+	/**
+	 * Removes all the registered subscriptions.
+	 */
+	public unsubscribeAll(): void {
+		for (const id of Array.from(this._subscriptions.keys())) {
+			this.unsubscribe(id);
+		}
+	}
+
+	/**
+	 * Subscribes to the data at the path and yields the events as they are pulled by the consumer.
+	 * The subscription is removed when the iteration ends, e.g. by `break`.
+	 * @param listener The listener to subscribe to
+	 * @param path The path to watch
+	 * @param constraints The Query constraints
+	 * @param options The buffer options
+	 * @returns An async iterator of the events
+	 */
+	public watch<L extends Listener, P extends RTDBPath<Schema> = never>(
+		listener: L,
+		path?: P,
+		constraints?: QueryConstraintType | string,
+		options?: WatchOptions
+	): SubscriptionIterator<WatchEvent<RTDBListenerSnapshot<Schema, L, P>>> {
+		const { bufferSize = 100, overflow = "drop-oldest" } = this.checkWatchOptions(options);
+		type Event = WatchEvent<RTDBListenerSnapshot<Schema, L, P>>;
+
+		return new SubscriptionIterator<Event>(
+			(push, fail) => {
+				const unsubscription = this.doSubscriptionQuery(
+					listener,
+					(snapshot, previousChildName) =>
+						push({ listener, key: snapshot.key, value: snapshot.val(), previousChildName, snapshot } as Event),
+					path,
+					constraints,
+					fail
+				);
+
+				return () => this.doUnSubscriptionQuery(listener, unsubscription, path);
+			},
+			bufferSize,
+			overflow
+		);
+	}
+
+	/**
+	 * Subscribes to the value at the path and calls the callback with the JSON Patch (RFC 6902) operations
+	 * between the previous and the current value. The operation paths are the full paths from the root,
+	 * so they can be applied with `applyPatch`. The first call adds the initial value.
+	 * @param path The path to watch
+	 * @param callback The function called with the operations and the current snapshot
+	 * @param constraints The Query constraints
+	 * @param errorCallback The function called if the subscription is cancelled by the server
+	 * @returns The unsubscription callback, to be used with the `value` listener
+	 */
+	public watchChanges<P extends RTDBPath<Schema> = never>(
+		path: P | undefined,
+		callback: ChangesCallback<RTDBSnapshot<Schema, P>>,
+		constraints?: QueryConstraintType | string,
+		errorCallback?: SubscriptionErrorCallback
+	): Unsubscription {
+		if (typeof callback !== "function") throw new RTDBError("rtdb/invalid-argument", "The callback must be a function");
+
+		let previous: unknown;
+
+		return this.doSubscriptionQuery(
+			"value",
+			(snapshot) => {
+				const current = snapshot.val();
+				const operations = diffValues(previous, current, path);
+
+				previous = current;
+
+				if (operations.length) callback(operations, snapshot as RTDBSnapshot<Schema, P>);
+			},
+			path,
+			constraints,
+			errorCallback
+		);
+	}
+
+	/**
+	 * Subscribes to the data at the path and pushes the events in a Readable stream in object mode.
+	 * The subscription is removed when the stream is destroyed.
+	 * @param listener The listener to subscribe to
+	 * @param path The path to watch
+	 * @param constraints The Query constraints
+	 * @param options The buffer options
+	 * @returns A Readable stream of the events
+	 */
+	public watchStream<L extends Listener, P extends RTDBPath<Schema> = never>(
+		listener: L,
+		path?: P,
+		constraints?: QueryConstraintType | string,
+		options?: WatchOptions
+	): Readable {
+		return Readable.from(this.watch(listener, path, constraints, options), { objectMode: true, highWaterMark: 1 });
+	}
+
+	/**
+	 * Runs the query and converts the errors of the SDK, or of the server, to RTDBError.
+	 * @param query The query to run
+	 * @param options The context of the errors
+	 * @returns The result of the query
+	 */
+	private async wrapErrors<T>(query: () => Promise<T>, options: FirebaseNodeJSErrorOptions): Promise<T> {
+		try {
+			return await query();
+		} catch (error) {
+			throw toRTDBError(error, options);
+		}
+	}
+
+	private async writeQuery(methodParsed: QueryMethod, pathParsed: string, args: unknown[]) {
+		const [valueRaw, priority] = args;
+		const value = this.resolveServerValues(valueRaw);
+
+		if (this.isRest(this._database)) {
+			const priorityParsed =
+				methodParsed === "setPriority" || methodParsed === "setWithPriority" ? this.checkPriority(priority) : undefined;
+
+			if (methodParsed === "update" && !(value && typeof value === "object"))
+				throw new RTDBError("rtdb/invalid-value", 'The value to write must be an object with "update" query', {
+					method: methodParsed,
+					path: pathParsed,
+				});
+
+			return this._database.write(methodParsed, pathParsed, value, priorityParsed);
+		}
+
+		if (this.isAdmin(this._database)) {
+			switch (methodParsed) {
+				case "update":
+					if (value && typeof value === "object") {
+						await this._database.ref().child(pathParsed)[methodParsed](value);
+						break;
+					}
+
+					throw new RTDBError("rtdb/invalid-value", 'The value to write must be an object with "update" query', {
+						method: methodParsed,
+						path: pathParsed,
+					});
+				case "remove":
+					await this._database.ref().child(pathParsed)[methodParsed]();
+					break;
+				case "setPriority":
+					await this._database
+						.ref()
+						.child(pathParsed)
+						.setPriority(this.checkPriority(priority), (err) => {
+							if (err) throw err;
+						});
+					break;
+				case "setWithPriority":
+					await this._database.ref().child(pathParsed)[methodParsed](value, this.checkPriority(priority));
+					break;
+				default:
+					await this._database.ref().child(pathParsed)[methodParsed](value);
+					break;
+			}
+		} else {
+			switch (methodParsed) {
+				case "update":
+					if (value && typeof value === "object") {
+						await database[methodParsed](ref(this._database, pathParsed), value);
+						break;
+					}
+
+					throw new RTDBError("rtdb/invalid-value", 'The value to write must be an object with "update" query.', {
+						method: methodParsed,
+						path: pathParsed,
+					});
+				case "remove":
+					await database[methodParsed](ref(this._database, pathParsed));
+					break;
+				case "setPriority":
+					await database[methodParsed](ref(this._database, pathParsed), this.checkPriority(priority));
+					break;
+				case "setWithPriority":
+					await database[methodParsed](ref(this._database, pathParsed), value, this.checkPriority(priority));
+					break;
+				default:
+					await database[methodParsed](ref(this._database, pathParsed), value);
+					break;
+			}
 		}
 	}
 }
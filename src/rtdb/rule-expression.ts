@@ -0,0 +1,544 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RTDBError } from "./rtdb-error";
+import { RuleDataSnapshot } from "./rule-snapshot";
+
+type Expression =
+	| { type: "array"; elements: Expression[] }
+	| { type: "binary"; operator: string; left: Expression; right: Expression }
+	| { type: "call"; object: Expression; method: string; args: Expression[] }
+	| { type: "conditional"; test: Expression; consequent: Expression; alternate: Expression }
+	| { type: "identifier"; name: string }
+	| { type: "index"; object: Expression; index: Expression }
+	| { type: "literal"; value: unknown }
+	| { type: "member"; object: Expression; property: string }
+	| { type: "unary"; operator: string; argument: Expression };
+
+interface Token {
+	type: "identifier" | "number" | "punctuator" | "regex" | "string";
+	value: string;
+	position: number;
+	flags?: string;
+}
+
+/** The longest first, to be matched before their prefixes */
+const PUNCTUATORS = [
+	"===",
+	"!==",
+	"==",
+	"!=",
+	"<=",
+	">=",
+	"&&",
+	"||",
+	"<",
+	">",
+	"+",
+	"-",
+	"*",
+	"/",
+	"%",
+	"!",
+	"?",
+	":",
+	".",
+	",",
+	"(",
+	")",
+	"[",
+	"]",
+];
+
+const BINARY_POWERS: Record<string, number> = {
+	"||": 2,
+	"&&": 3,
+	"==": 4,
+	"!=": 4,
+	"===": 4,
+	"!==": 4,
+	"<": 5,
+	"<=": 5,
+	">": 5,
+	">=": 5,
+	"+": 6,
+	"-": 6,
+	"*": 7,
+	"/": 7,
+	"%": 7,
+};
+
+const ESCAPES: Record<string, string> = { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v" };
+
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+
+	while (position < source.length) {
+		const char = source[position];
+		const rest = source.slice(position);
+		const previous = tokens[tokens.length - 1];
+
+		if (/\s/.test(char)) {
+			position++;
+			continue;
+		}
+
+		const identifier = rest.match(/^[A-Za-z_$][\w$]*/);
+		if (identifier) {
+			tokens.push({ type: "identifier", value: identifier[0], position });
+			position += identifier[0].length;
+			continue;
+		}
+
+		const number = rest.match(/^\d+(\.\d+)?([eE][+-]?\d+)?/);
+		if (number) {
+			tokens.push({ type: "number", value: number[0], position });
+			position += number[0].length;
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			let value = "";
+			let end = position + 1;
+
+			while (end < source.length && source[end] !== char) {
+				if (source[end] === "\\") {
+					const escaped = source[++end];
+
+					if (escaped === "u") {
+						value += String.fromCharCode(parseInt(source.slice(end + 1, end + 5), 16));
+						end += 4;
+					} else {
+						value += ESCAPES[escaped] ?? escaped;
+					}
+				} else {
+					value += source[end];
+				}
+				end++;
+			}
+
+			if (end >= source.length)
+				throw new RTDBError("rtdb/invalid-rules", `Unterminated string at position ${position}`);
+
+			tokens.push({ type: "string", value, position });
+			position = end + 1;
+			continue;
+		}
+
+		// A slash starts a regular expression where an operand is expected, e.g. `matches(/^a/)`
+		if (char === "/" && (!previous || (previous.type === "punctuator" && !")]".includes(previous.value)))) {
+			const regex = rest.match(/^\/((?:\\.|[^\\/])+)\/([a-z]*)/);
+
+			if (!regex) throw new RTDBError("rtdb/invalid-rules", `Invalid regular expression at position ${position}`);
+
+			tokens.push({ type: "regex", value: regex[1], flags: regex[2], position });
+			position += regex[0].length;
+			continue;
+		}
+
+		const punctuator = PUNCTUATORS.find((punctuator) => rest.startsWith(punctuator));
+		if (!punctuator)
+			throw new RTDBError("rtdb/invalid-rules", `Unexpected character "${char}" at position ${position}`);
+
+		tokens.push({ type: "punctuator", value: punctuator, position });
+		position += punctuator.length;
+	}
+
+	return tokens;
+}
+
+class Parser {
+	private index = 0;
+
+	constructor(private tokens: Token[]) {}
+
+	private consume(): Token {
+		const token = this.tokens[this.index++];
+
+		if (!token) throw new RTDBError("rtdb/invalid-rules", "Unexpected end of the expression");
+
+		return token;
+	}
+
+	private expect(value: string) {
+		const token = this.consume();
+
+		if (token.type !== "punctuator" || token.value !== value)
+			throw new RTDBError(
+				"rtdb/invalid-rules",
+				`Expected "${value}" at position ${token.position}, got "${token.value}"`
+			);
+	}
+
+	private expression(minPower = 0): Expression {
+		let left = this.unary();
+
+		for (;;) {
+			const token = this.peek();
+
+			if (token?.type !== "punctuator") break;
+
+			if (token.value === "?") {
+				if (minPower > 1) break;
+
+				this.index++;
+				const consequent = this.expression();
+				this.expect(":");
+				left = { type: "conditional", test: left, consequent, alternate: this.expression() };
+				continue;
+			}
+
+			const power = BINARY_POWERS[token.value];
+
+			if (power === undefined || power <= minPower) break;
+
+			this.index++;
+			left = { type: "binary", operator: token.value, left, right: this.expression(power) };
+		}
+
+		return left;
+	}
+
+	private list(end: string): Expression[] {
+		const elements: Expression[] = [];
+
+		while (!this.isNext(end)) {
+			elements.push(this.expression());
+			if (!this.isNext(end)) this.expect(",");
+		}
+
+		this.expect(end);
+
+		return elements;
+	}
+
+	private isNext(value: string): boolean {
+		const token = this.peek();
+		return token?.type === "punctuator" && token.value === value;
+	}
+
+	public parse(): Expression {
+		const expression = this.expression();
+		const token = this.peek();
+
+		if (token) throw new RTDBError("rtdb/invalid-rules", `Unexpected "${token.value}" at position ${token.position}`);
+
+		return expression;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+
+	private postfix(expression: Expression): Expression {
+		for (;;) {
+			if (this.isNext(".")) {
+				this.index++;
+				const property = this.consume();
+
+				if (property.type !== "identifier")
+					throw new RTDBError("rtdb/invalid-rules", `Expected a property name at position ${property.position}`);
+
+				if (this.isNext("(")) {
+					this.index++;
+					expression = { type: "call", object: expression, method: property.value, args: this.list(")") };
+				} else {
+					expression = { type: "member", object: expression, property: property.value };
+				}
+			} else if (this.isNext("[")) {
+				this.index++;
+				expression = { type: "index", object: expression, index: this.expression() };
+				this.expect("]");
+			} else if (this.isNext("(")) {
+				throw new RTDBError(
+					"rtdb/invalid-rules",
+					`Only methods can be called, at position ${(this.peek() as Token).position}`
+				);
+			} else {
+				return expression;
+			}
+		}
+	}
+
+	private primary(): Expression {
+		const token = this.consume();
+
+		switch (token.type) {
+			case "identifier":
+				if (token.value === "true" || token.value === "false")
+					return { type: "literal", value: token.value === "true" };
+				if (token.value === "null") return { type: "literal", value: null };
+				return { type: "identifier", name: token.value };
+			case "number":
+				return { type: "literal", value: Number(token.value) };
+			case "regex":
+				return { type: "literal", value: new RegExp(token.value, token.flags) };
+			case "string":
+				return { type: "literal", value: token.value };
+		}
+
+		if (token.value === "(") {
+			const expression = this.expression();
+			this.expect(")");
+			return expression;
+		}
+
+		if (token.value === "[") return { type: "array", elements: this.list("]") };
+
+		throw new RTDBError("rtdb/invalid-rules", `Unexpected "${token.value}" at position ${token.position}`);
+	}
+
+	private unary(): Expression {
+		if (this.isNext("!") || this.isNext("-")) {
+			const operator = this.consume().value;
+			return { type: "unary", operator, argument: this.unary() };
+		}
+
+		return this.postfix(this.primary());
+	}
+}
+
+/**
+ * Parses the expression of a rule, like `auth != null && data.child('owner').val() == auth.uid`.
+ * @param source The expression
+ * @returns The syntax tree of the expression
+ */
+function parseExpression(source: string): Expression {
+	return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Lists the variables used by the expression, to check that they are defined where the rule is.
+ * @param expression The syntax tree of the expression
+ * @returns The names of the variables
+ */
+function expressionVariables(expression: Expression): string[] {
+	switch (expression.type) {
+		case "array":
+			return expression.elements.flatMap(expressionVariables);
+		case "binary":
+			return [...expressionVariables(expression.left), ...expressionVariables(expression.right)];
+		case "call":
+			return [...expressionVariables(expression.object), ...expression.args.flatMap(expressionVariables)];
+		case "conditional":
+			return [expression.test, expression.consequent, expression.alternate].flatMap(expressionVariables);
+		case "identifier":
+			return [expression.name];
+		case "index":
+			return [...expressionVariables(expression.object), ...expressionVariables(expression.index)];
+		case "literal":
+			return [];
+		case "member":
+			return expressionVariables(expression.object);
+		case "unary":
+			return expressionVariables(expression.argument);
+	}
+}
+
+function describe(value: unknown): string {
+	if (value instanceof RuleDataSnapshot) return "a snapshot";
+	if (value instanceof RegExp) return "a regular expression";
+	if (Array.isArray(value)) return "an array";
+
+	return value === null ? "null" : typeof value;
+}
+
+function expectType<T>(value: unknown, type: "boolean" | "number" | "string", context: string): T {
+	if (typeof value !== type)
+		throw new RTDBError("rtdb/rule-evaluation", `${context} expects a ${type}, got ${describe(value)}`);
+	return value as T;
+}
+
+function callMethod(object: unknown, method: string, args: unknown[]): unknown {
+	if (object instanceof RuleDataSnapshot) {
+		switch (method) {
+			case "child":
+				return object.child(expectType<string>(args[0], "string", "child()"));
+			case "exists":
+				return object.exists();
+			case "getPriority":
+				return object.getPriority();
+			case "hasChild":
+				return object.hasChild(expectType<string>(args[0], "string", "hasChild()"));
+			case "hasChildren":
+				if (args[0] !== undefined && !(Array.isArray(args[0]) && args[0].every((key) => typeof key === "string")))
+					throw new RTDBError(
+						"rtdb/rule-evaluation",
+						`hasChildren() expects an array of strings, got ${describe(args[0])}`
+					);
+				return object.hasChildren(args[0] as string[] | undefined);
+			case "isBoolean":
+				return object.isBoolean();
+			case "isNumber":
+				return object.isNumber();
+			case "isString":
+				return object.isString();
+			case "parent":
+				return object.parent();
+			case "val":
+				return object.val();
+		}
+	}
+
+	if (typeof object === "string") {
+		switch (method) {
+			case "beginsWith":
+				return object.startsWith(expectType<string>(args[0], "string", "beginsWith()"));
+			case "contains":
+				return object.includes(expectType<string>(args[0], "string", "contains()"));
+			case "endsWith":
+				return object.endsWith(expectType<string>(args[0], "string", "endsWith()"));
+			case "matches":
+				if (!(args[0] instanceof RegExp))
+					throw new RTDBError(
+						"rtdb/rule-evaluation",
+						`matches() expects a regular expression, got ${describe(args[0])}`
+					);
+				return args[0].test(object);
+			case "replace":
+				return object
+					.split(expectType<string>(args[0], "string", "replace()"))
+					.join(expectType<string>(args[1], "string", "replace()"));
+			case "toLowerCase":
+				return object.toLowerCase();
+			case "toUpperCase":
+				return object.toUpperCase();
+		}
+	}
+
+	throw new RTDBError("rtdb/rule-evaluation", `Unknown method "${method}" on ${describe(object)}`);
+}
+
+function getProperty(object: unknown, property: unknown): unknown {
+	if (typeof object === "string" && property === "length") return object.length;
+	if (Array.isArray(object) && typeof property === "number") return object[property] ?? null;
+
+	if (
+		object !== null &&
+		typeof object === "object" &&
+		!(object instanceof RuleDataSnapshot) &&
+		!(object instanceof RegExp) &&
+		!Array.isArray(object)
+	) {
+		if (typeof property !== "string")
+			throw new RTDBError("rtdb/rule-evaluation", `The property name must be a string, got ${describe(property)}`);
+		return Object.prototype.hasOwnProperty.call(object, property)
+			? (object as Record<string, unknown>)[property]
+			: null;
+	}
+
+	throw new RTDBError("rtdb/rule-evaluation", `Unable to read the property "${property}" of ${describe(object)}`);
+}
+
+function evaluateBinary(operator: string, left: unknown, right: unknown): unknown {
+	switch (operator) {
+		case "==":
+		case "===":
+			return left === right;
+		case "!=":
+		case "!==":
+			return left !== right;
+		case "+":
+			if (typeof left === "number" && typeof right === "number") return left + right;
+			if (typeof left === "string" || typeof right === "string") {
+				if (
+					![left, right].every(
+						(operand) => ["boolean", "number", "string"].includes(typeof operand) || operand === null
+					)
+				)
+					throw new RTDBError("rtdb/rule-evaluation", `Unable to concatenate ${describe(left)} and ${describe(right)}`);
+				return `${left}${right}`;
+			}
+			throw new RTDBError("rtdb/rule-evaluation", `Unable to add ${describe(left)} and ${describe(right)}`);
+	}
+
+	if (["<", "<=", ">", ">="].includes(operator)) {
+		if (
+			!(
+				(typeof left === "number" && typeof right === "number") ||
+				(typeof left === "string" && typeof right === "string")
+			)
+		)
+			throw new RTDBError("rtdb/rule-evaluation", `Unable to compare ${describe(left)} and ${describe(right)}`);
+
+		const a = left as number | string;
+		const b = right as number | string;
+
+		return operator === "<" ? a < b : operator === "<=" ? a <= b : operator === ">" ? a > b : a >= b;
+	}
+
+	const a = expectType<number>(left, "number", `"${operator}"`);
+	const b = expectType<number>(right, "number", `"${operator}"`);
+
+	return operator === "-" ? a - b : operator === "*" ? a * b : operator === "/" ? a / b : a % b;
+}
+
+/**
+ * Evaluates the expression of a rule. Throws an error if a value has not the expected type, as the server
+ * does, in which case the rule is considered as failed.
+ * @param expression The syntax tree of the expression
+ * @param variables The variables, `auth`, `data`, `newData`, `now`, `root`, `query` and the wildcards
+ * @returns The value of the expression
+ */
+function evaluateExpression(expression: Expression, variables: Record<string, unknown>): unknown {
+	const evaluate = (expression: Expression) => evaluateExpression(expression, variables);
+
+	switch (expression.type) {
+		case "array":
+			return expression.elements.map(evaluate);
+		case "binary": {
+			const { left, operator, right } = expression;
+
+			// Short-circuited like in JavaScript, the operands must be booleans
+			if (operator === "&&" || operator === "||") {
+				const leftValue = expectType<boolean>(evaluate(left), "boolean", `"${operator}"`);
+
+				if (operator === "&&" ? !leftValue : leftValue) return leftValue;
+
+				return expectType<boolean>(evaluate(right), "boolean", `"${operator}"`);
+			}
+
+			return evaluateBinary(operator, evaluate(left), evaluate(right));
+		}
+		case "call":
+			return callMethod(evaluate(expression.object), expression.method, expression.args.map(evaluate));
+		case "conditional":
+			return expectType<boolean>(evaluate(expression.test), "boolean", "The condition")
+				? evaluate(expression.consequent)
+				: evaluate(expression.alternate);
+		case "identifier":
+			if (!(expression.name in variables))
+				throw new RTDBError("rtdb/rule-evaluation", `Unknown variable "${expression.name}"`);
+			return variables[expression.name];
+		case "index":
+			return getProperty(evaluate(expression.object), evaluate(expression.index));
+		case "literal":
+			return expression.value;
+		case "member":
+			return getProperty(evaluate(expression.object), expression.property);
+		case "unary": {
+			const value = evaluate(expression.argument);
+
+			return expression.operator === "!"
+				? !expectType<boolean>(value, "boolean", '"!"')
+				: -expectType<number>(value, "number", '"-"');
+		}
+	}
+}
+
+export { evaluateExpression, Expression, expressionVariables, parseExpression };
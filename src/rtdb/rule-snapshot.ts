@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isNode, stripPriorities } from "./ordering";
+import { RTDBError } from "./rtdb-error";
+
+/**
+ * The data at a location as seen by the security rules, like the `data`, `newData` and `root` variables.
+ */
+export class RuleDataSnapshot {
+	/**
+	 * @param tree The whole tree in the export format, priorities included
+	 * @param segments The segments of the path of the location
+	 */
+	constructor(protected tree: unknown, public readonly segments: string[] = []) {}
+
+	private get node(): unknown {
+		return this.segments.reduce<unknown>((node, segment) => (isNode(node) ? node[segment] : null), this.tree);
+	}
+
+	public child(path: string): RuleDataSnapshot {
+		return new RuleDataSnapshot(this.tree, [...this.segments, ...path.split("/").filter(Boolean)]);
+	}
+
+	public exists(): boolean {
+		return this.val() !== null;
+	}
+
+	public getPriority(): string | number | null {
+		const node = this.node;
+		return isNode(node) ? (node[".priority"] as string | number | undefined) ?? null : null;
+	}
+
+	public hasChild(path: string): boolean {
+		return this.child(path).exists();
+	}
+
+	/**
+	 * Checks that the location has all the children, or any child if no keys are given.
+	 */
+	public hasChildren(keys?: string[]): boolean {
+		if (keys === undefined) return isNode(this.val());
+
+		return keys.every((key) => this.hasChild(key));
+	}
+
+	public isBoolean(): boolean {
+		return typeof this.val() === "boolean";
+	}
+
+	public isNumber(): boolean {
+		return typeof this.val() === "number";
+	}
+
+	public isString(): boolean {
+		return typeof this.val() === "string";
+	}
+
+	public parent(): RuleDataSnapshot {
+		if (!this.segments.length) throw new RTDBError("rtdb/rule-evaluation", "The root has no parent");
+
+		return new RuleDataSnapshot(this.tree, this.segments.slice(0, -1));
+	}
+
+	public val(): unknown {
+		return stripPriorities(this.node);
+	}
+}
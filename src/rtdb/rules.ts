@@ -0,0 +1,468 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { randomBytes } from "crypto";
+import { isNode, stripPriorities } from "./ordering";
+import { RTDBError } from "./rtdb-error";
+import { evaluateExpression, Expression, expressionVariables, parseExpression } from "./rule-expression";
+import { RuleDataSnapshot } from "./rule-snapshot";
+import { QueryConstraintType, QueryMethod, RulesContext, RulesResult, RulesSource } from "./types";
+
+type RuleType = "read" | "validate" | "write";
+
+interface Rule {
+	expression: Expression;
+	/** The path of the rule, e.g. `/users/$uid/.write` */
+	path: string;
+}
+
+interface RuleNode {
+	children: Map<string, RuleNode>;
+	indexOn: string[];
+	read?: Rule;
+	validate?: Rule;
+	wildcard?: { name: string; node: RuleNode };
+	write?: Rule;
+}
+
+interface RuleMatch {
+	node: RuleNode;
+	segments: string[];
+	/** The values of the wildcards matched */
+	variables: Record<string, string>;
+}
+
+const RULE_VARIABLES: Record<RuleType, string[]> = {
+	read: ["auth", "data", "now", "query", "root"],
+	validate: ["auth", "data", "newData", "now", "root"],
+	write: ["auth", "data", "newData", "now", "root"],
+};
+
+/**
+ * Removes the `//` and `/* *\/` comments allowed in `database.rules.json`, outside of the strings.
+ */
+function stripComments(source: string): string {
+	let result = "";
+	let inString = false;
+
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+
+		if (inString) {
+			result += char;
+			if (char === "\\") result += source[++i] ?? "";
+			else if (char === '"') inString = false;
+		} else if (char === "/" && source[i + 1] === "/") {
+			while (i + 1 < source.length && source[i + 1] !== "\n") i++;
+		} else if (char === "/" && source[i + 1] === "*") {
+			const end = source.indexOf("*/", i + 2);
+			i = end === -1 ? source.length : end + 1;
+		} else {
+			inString = char === '"';
+			result += char;
+		}
+	}
+
+	return result;
+}
+
+function getNode(tree: unknown, segments: string[]): unknown {
+	return segments.reduce<unknown>((node, segment) => (isNode(node) ? node[segment] : null), tree);
+}
+
+/**
+ * Writes the value in a copy of the tree, the copies are made along the path only.
+ */
+function setNode(tree: unknown, segments: string[], value: unknown): unknown {
+	if (!segments.length) return value;
+
+	const [key, ...rest] = segments;
+	const node = isNode(tree) && !(".value" in tree) ? tree : {};
+	const result: Record<string, unknown> = { ...node, [key]: setNode(node[key], rest, value) };
+
+	if (stripPriorities(result[key]) === null) delete result[key];
+
+	return result;
+}
+
+/**
+ * Replaces the server value placeholders by the value the server would write.
+ */
+function resolveServerValues(value: unknown, current: unknown, now: number): unknown {
+	if (!isNode(value)) return value;
+
+	const serverValue = value[".sv"];
+
+	if (serverValue === "timestamp") return now;
+	if (isNode(serverValue) && typeof serverValue.increment === "number") {
+		const currentValue = stripPriorities(current);
+		return (typeof currentValue === "number" ? currentValue : 0) + serverValue.increment;
+	}
+
+	return Object.fromEntries(
+		Object.entries(value).map(([key, child]) => [
+			key,
+			key.startsWith(".") ? child : resolveServerValues(child, isNode(current) ? current[key] : null, now),
+		])
+	);
+}
+
+function toPath(segments: string[]): string {
+	return `/${segments.join("/")}`;
+}
+
+function toSegments(path: string): string[] {
+	if (typeof path !== "string") throw new RTDBError("rtdb/invalid-path", "The path must be a string!");
+	return path.split("/").filter(Boolean);
+}
+
+/**
+ * Evaluates the security rules of the Realtime Database locally, to know whether a read or a write
+ * would be denied without sending it, or to test the rules without a server.
+ *
+ * `.read` and `.write` rules cascade: the access is granted if a rule of the location or of a parent grants it.
+ * `.validate` rules must pass for each non-null location written, parents included.
+ */
+export class RulesEngine {
+	private root: RuleNode;
+
+	/**
+	 * @param source The rules as the content of `database.rules.json` or as the parsed object
+	 */
+	constructor(source: RulesSource) {
+		let parsed: unknown = source;
+
+		if (typeof source === "string") {
+			try {
+				parsed = JSON.parse(stripComments(source));
+			} catch (error) {
+				throw new RTDBError("rtdb/invalid-rules", `Unable to parse the rules: ${(error as Error).message}`);
+			}
+		} else if (!isNode(source)) {
+			throw new RTDBError("rtdb/invalid-rules", "The rules must be a string or an object!");
+		}
+
+		if (!isNode(parsed) || !isNode(parsed.rules))
+			throw new RTDBError("rtdb/invalid-rules", 'The rules must be an object with a "rules" key');
+
+		this.root = this.compile(parsed.rules, [], []);
+	}
+
+	private compile(raw: unknown, segments: string[], variables: string[]): RuleNode {
+		const location = toPath(segments);
+
+		if (!isNode(raw) || Array.isArray(raw))
+			throw new RTDBError("rtdb/invalid-rules", `The rules at "${location}" must be an object`);
+
+		const node: RuleNode = { children: new Map(), indexOn: [] };
+
+		for (const [key, value] of Object.entries(raw)) {
+			const path = `${segments.length ? location : ""}/${key}`;
+
+			switch (key) {
+				case ".indexOn":
+					if (!(typeof value === "string" || (Array.isArray(value) && value.every((i) => typeof i === "string"))))
+						throw new RTDBError("rtdb/invalid-rules", `The rule "${path}" must be a string or an array of strings`);
+					node.indexOn = ([] as string[]).concat(value);
+					continue;
+				case ".read":
+				case ".validate":
+				case ".write":
+					node[key.slice(1) as RuleType] = this.compileRule(value, path, key.slice(1) as RuleType, variables);
+					continue;
+			}
+
+			if (key.startsWith(".")) throw new RTDBError("rtdb/invalid-rules", `Unknown rule "${path}"`);
+
+			if (key.startsWith("$")) {
+				if (node.wildcard)
+					throw new RTDBError(
+						"rtdb/invalid-rules",
+						`Only one wildcard is allowed at "${location}", got "${node.wildcard.name}" and "${key}"`
+					);
+				if (variables.includes(key))
+					throw new RTDBError("rtdb/invalid-rules", `The wildcard "${key}" is already used above "${path}"`);
+
+				node.wildcard = { name: key, node: this.compile(value, [...segments, key], [...variables, key]) };
+			} else {
+				node.children.set(key, this.compile(value, [...segments, key], variables));
+			}
+		}
+
+		return node;
+	}
+
+	private compileRule(value: unknown, path: string, type: RuleType, variables: string[]): Rule {
+		if (typeof value === "boolean") return { expression: { type: "literal", value }, path };
+		if (typeof value !== "string")
+			throw new RTDBError("rtdb/invalid-rules", `The rule "${path}" must be a boolean or a string`);
+
+		let expression: Expression;
+
+		try {
+			expression = parseExpression(value);
+		} catch (error) {
+			throw new RTDBError("rtdb/invalid-rules", `Invalid rule "${path}": ${(error as Error).message}`);
+		}
+
+		const unknown = expressionVariables(expression).find(
+			(name) => !RULE_VARIABLES[type].includes(name) && !variables.includes(name)
+		);
+
+		if (unknown) throw new RTDBError("rtdb/invalid-rules", `Unknown variable "${unknown}" in the rule "${path}"`);
+
+		return { expression, path };
+	}
+
+	/**
+	 * Evaluates whether the read of the path, with the Query constraints, would be granted.
+	 * @param path The path to read
+	 * @param constraints The Query constraints, available as the `query` variable
+	 * @param context The auth and the data against which the rules are evaluated
+	 * @returns The result, with the rule which has denied the read
+	 */
+	public evaluateRead(path: string, constraints: QueryConstraintType = {}, context: RulesContext = {}): RulesResult {
+		const segments = toSegments(path);
+		const tree = context.data ?? null;
+		const variables = {
+			auth: context.auth ?? null,
+			now: context.now ?? Date.now(),
+			query: this.queryVariable(constraints),
+			root: new RuleDataSnapshot(tree),
+		};
+		let denial: RulesResult = { allowed: false, path: toPath(segments) };
+
+		for (const match of this.match(segments)) {
+			if (!match.node.read) continue;
+
+			const reason = this.evaluateRule(match.node.read, {
+				...variables,
+				...match.variables,
+				data: new RuleDataSnapshot(tree, match.segments),
+			});
+
+			if (reason === undefined) return { allowed: true };
+
+			denial = { ...denial, rule: match.node.read.path, reason: reason || undefined };
+		}
+
+		return denial;
+	}
+
+	/**
+	 * Evaluates the rule.
+	 * @returns `undefined` if the rule passed, otherwise why it failed, empty if it evaluated to `false`
+	 */
+	private evaluateRule(rule: Rule, variables: Record<string, unknown>): string | undefined {
+		try {
+			const value = evaluateExpression(rule.expression, variables);
+
+			if (typeof value !== "boolean") return `The rule must evaluate to a boolean, got ${typeof value}`;
+
+			return value ? undefined : "";
+		} catch (error) {
+			return (error as Error).message;
+		}
+	}
+
+	/**
+	 * Evaluates whether the write would be granted and the data written valid.
+	 * @param method The method of the write, as for `doWriteQuery`
+	 * @param path The path to write
+	 * @param args The arguments of the write: the value then the priority
+	 * @param context The auth and the data against which the rules are evaluated
+	 * @returns The result, with the rule which has denied the write
+	 */
+	public evaluateWrite(
+		method: QueryMethod,
+		path: string,
+		args: unknown[] = [],
+		context: RulesContext = {}
+	): RulesResult {
+		const segments = toSegments(path);
+		const tree = context.data ?? null;
+		const now = context.now ?? Date.now();
+		const [value, priority] = args;
+		let writes: [string[], unknown][];
+
+		switch (method) {
+			case "push":
+				// Any key, the one generated when sending is not known yet
+				writes = [[[...segments, `-${randomBytes(8).toString("hex")}`], value]];
+				break;
+			case "remove":
+				writes = [[segments, null]];
+				break;
+			case "set":
+				writes = [[segments, value]];
+				break;
+			case "setPriority":
+			case "setWithPriority": {
+				const current = method === "setPriority" ? getNode(tree, segments) : value;
+				const exists = stripPriorities(current) !== null;
+
+				writes = [
+					[segments, exists ? { ...(isNode(current) ? current : { ".value": current }), ".priority": priority } : null],
+				];
+				break;
+			}
+			case "update":
+				if (!isNode(value))
+					throw new RTDBError("rtdb/invalid-value", 'The value to write must be an object with "update" query');
+
+				writes = Object.entries(value).map(([key, child]) => [[...segments, ...toSegments(key)], child]);
+				break;
+			default:
+				throw new RTDBError("rtdb/invalid-method", `The method "${method}" is invalid`);
+		}
+
+		writes = writes.map(([location, child]) => [location, resolveServerValues(child, getNode(tree, location), now)]);
+
+		const newTree = writes.reduce<unknown>((node, [location, child]) => setNode(node, location, child), tree);
+		const variables = { auth: context.auth ?? null, now, root: new RuleDataSnapshot(tree) };
+		const validated = new Set<string>();
+
+		const snapshots = (match: RuleMatch) => ({
+			...variables,
+			...match.variables,
+			data: new RuleDataSnapshot(tree, match.segments),
+			newData: new RuleDataSnapshot(newTree, match.segments),
+		});
+
+		const validate = (match: RuleMatch): RulesResult | undefined => {
+			const location = toPath(match.segments);
+			const rule = match.node.validate;
+
+			if (validated.has(location)) return;
+			validated.add(location);
+
+			// The deleted locations are not validated
+			if (!rule || stripPriorities(getNode(newTree, match.segments)) === null) return;
+
+			const reason = this.evaluateRule(rule, snapshots(match));
+
+			if (reason !== undefined) return { allowed: false, path: location, rule: rule.path, reason: reason || undefined };
+		};
+
+		const validateTree = (match: RuleMatch): RulesResult | undefined => {
+			const denial = validate(match);
+			const node = stripPriorities(getNode(newTree, match.segments));
+
+			if (denial || !isNode(node)) return denial;
+
+			for (const key of Object.keys(node)) {
+				const child = this.matchChild(match, key);
+				const childDenial = child && validateTree(child);
+
+				if (childDenial) return childDenial;
+			}
+		};
+
+		for (const [segments] of writes) {
+			const matches = this.match(segments);
+			let denial: RulesResult = { allowed: false, path: toPath(segments) };
+			let granted = false;
+
+			for (const match of matches) {
+				if (!match.node.write) continue;
+
+				const reason = this.evaluateRule(match.node.write, snapshots(match));
+
+				if (reason === undefined) {
+					granted = true;
+					break;
+				}
+
+				denial = { ...denial, rule: match.node.write.path, reason: reason || undefined };
+			}
+
+			if (!granted) return denial;
+
+			for (const match of matches) {
+				const validation = match.segments.length === segments.length ? validateTree(match) : validate(match);
+
+				if (validation) return validation;
+			}
+		}
+
+		return { allowed: true };
+	}
+
+	/**
+	 * Gets the children indexed at the path by the `.indexOn` rule.
+	 * @param path The path of the queried location
+	 * @returns The paths of the indexed children
+	 */
+	public indexOn(path: string): string[] {
+		const segments = toSegments(path);
+		const matches = this.match(segments);
+		const match = matches[matches.length - 1];
+
+		return match.segments.length === segments.length ? [...match.node.indexOn] : [];
+	}
+
+	/**
+	 * Matches the rules along the path, from the root to the deepest location having rules.
+	 */
+	private match(segments: string[]): RuleMatch[] {
+		const matches: RuleMatch[] = [{ node: this.root, segments: [], variables: {} }];
+
+		for (const key of segments) {
+			const child = this.matchChild(matches[matches.length - 1], key);
+
+			if (!child) break;
+
+			matches.push(child);
+		}
+
+		return matches;
+	}
+
+	private matchChild(match: RuleMatch, key: string): RuleMatch | undefined {
+		const { node, segments, variables } = match;
+		const child = node.children.get(key);
+
+		if (child) return { node: child, segments: [...segments, key], variables };
+		if (node.wildcard)
+			return {
+				node: node.wildcard.node,
+				segments: [...segments, key],
+				variables: { ...variables, [node.wildcard.name]: key },
+			};
+	}
+
+	/**
+	 * Builds the `query` variable of the `.read` rules.
+	 */
+	private queryVariable(constraints: QueryConstraintType) {
+		const { endAt, endBefore, equalTo, limitToFirst, limitToLast, orderByChild, startAfter, startAt } = constraints;
+
+		return {
+			endAt: endAt?.value ?? null,
+			endBefore: endBefore?.value ?? null,
+			equalTo: equalTo?.value ?? null,
+			limitToFirst: limitToFirst ?? null,
+			limitToLast: limitToLast ?? null,
+			orderByChild: orderByChild ?? null,
+			orderByKey: "orderByKey" in constraints,
+			orderByPriority: "orderByPriority" in constraints,
+			orderByValue: "orderByValue" in constraints,
+			startAfter: startAfter?.value ?? null,
+			startAt: startAt?.value ?? null,
+		};
+	}
+}
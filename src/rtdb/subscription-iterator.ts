@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RTDBError } from "./rtdb-error";
+import { WatchOverflow } from "./types";
+
+export type SubscribeFn<T> = (push: (event: T) => void, fail: (error: Error) => void) => () => void;
+
+/**
+ * Buffers the events of a subscription until they are pulled by the consumer.
+ * The subscription is removed when the iteration ends, whether by `break`, `return()` or an error.
+ */
+export class SubscriptionIterator<T> implements AsyncIterableIterator<T> {
+	private buffer: T[] = [];
+	private done = false;
+	private error?: Error;
+	private pending?: { resolve: (result: IteratorResult<T>) => void; reject: (error: Error) => void };
+	private unsubscribe?: () => void;
+
+	constructor(subscribe: SubscribeFn<T>, protected bufferSize: number, protected overflow: WatchOverflow) {
+		const unsubscribe = subscribe(
+			(event) => this.push(event),
+			(error) => this.fail(error)
+		);
+
+		this.unsubscribe = unsubscribe;
+
+		// The subscription may have failed while being attached
+		if (this.done) unsubscribe();
+	}
+
+	public [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+		return this;
+	}
+
+	private close() {
+		if (this.done) return;
+
+		this.done = true;
+		if (this.unsubscribe) this.unsubscribe();
+
+		if (this.pending) {
+			this.pending.resolve({ value: undefined, done: true });
+			this.pending = undefined;
+		}
+	}
+
+	private fail(error: Error) {
+		if (this.done) return;
+
+		const pending = this.pending;
+
+		this.pending = undefined;
+		this.close();
+
+		if (pending) {
+			pending.reject(error);
+		} else {
+			this.error = error;
+		}
+	}
+
+	public next(): Promise<IteratorResult<T>> {
+		if (this.buffer.length) return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+
+		if (this.error) {
+			const error = this.error;
+			this.error = undefined;
+			return Promise.reject(error);
+		}
+
+		if (this.done) return Promise.resolve({ value: undefined, done: true });
+
+		return new Promise((resolve, reject) => (this.pending = { resolve, reject }));
+	}
+
+	private push(event: T) {
+		if (this.done) return;
+
+		if (this.pending) {
+			this.pending.resolve({ value: event, done: false });
+			this.pending = undefined;
+			return;
+		}
+
+		if (this.buffer.length >= this.bufferSize) {
+			switch (this.overflow) {
+				case "drop-newest":
+					return;
+				case "drop-oldest":
+					this.buffer.shift();
+					break;
+				case "error":
+					this.fail(
+						new RTDBError("rtdb/buffer-overflow", `The subscription buffer exceeded ${this.bufferSize} events`)
+					);
+					return;
+			}
+		}
+
+		this.buffer.push(event);
+	}
+
+	public return(): Promise<IteratorResult<T>> {
+		this.buffer = [];
+		this.error = undefined;
+		this.close();
+
+		return Promise.resolve({ value: undefined, done: true });
+	}
+
+	public throw(error?: unknown): Promise<IteratorResult<T>> {
+		this.buffer = [];
+		this.close();
+
+		return Promise.reject(error);
+	}
+}
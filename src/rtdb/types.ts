@@ -17,6 +17,9 @@
 
 import { DataSnapshot, Unsubscribe } from "firebase/database";
 import { DataSnapshot as AdminDataSnapshot, Query, Reference } from "firebase-admin/database";
+import type { Delivery } from "./delivery";
+import type { RestDataSnapshot } from "./rest-snapshot";
+import { ChildData, SchemaAt, SchemaData, SchemaPath } from "../utils";
 
 export interface RTDBEvents {
 	connected: () => void;
@@ -25,6 +28,131 @@ export interface RTDBEvents {
 	disconnected: () => void;
 	"re-connecting": () => void;
 	log: (msg: string) => void;
+	"export-progress": (event: TreeProgressEvent) => void;
+	"import-progress": (event: TreeProgressEvent) => void;
+	"outbox-write": (event: OutboxWriteEvent) => void;
+	"server-time-offset": (offset: number) => void;
+	"subscription-error": (event: SubscriptionErrorEvent) => void;
+}
+
+/** The codes of the errors of RTDB, the codes of the SDK errors are converted to `rtdb/<reason>` */
+export type RTDBErrorCode =
+	| "rtdb/aborted"
+	| "rtdb/buffer-overflow"
+	| "rtdb/conflict"
+	| "rtdb/data-stale"
+	| "rtdb/disconnected"
+	| "rtdb/expired-token"
+	| "rtdb/http-error"
+	| "rtdb/invalid-argument"
+	| "rtdb/invalid-cursor"
+	| "rtdb/invalid-import"
+	| "rtdb/invalid-listener"
+	| "rtdb/invalid-method"
+	| "rtdb/invalid-options"
+	| "rtdb/invalid-patch"
+	| "rtdb/invalid-path"
+	| "rtdb/invalid-priority"
+	| "rtdb/invalid-query"
+	| "rtdb/invalid-rules"
+	| "rtdb/invalid-token"
+	| "rtdb/invalid-value"
+	| "rtdb/max-retries"
+	| "rtdb/network-error"
+	| "rtdb/not-found"
+	| "rtdb/not-initialized"
+	| "rtdb/overridden-by-set"
+	| "rtdb/permission-denied"
+	| "rtdb/rule-evaluation"
+	| "rtdb/rules-denied"
+	| "rtdb/too-big"
+	| "rtdb/unavailable"
+	| "rtdb/unsupported"
+	| "rtdb/user-code-exception"
+	| "rtdb/write-canceled";
+
+/**
+ * The writes containing an increment, `{ ".sv": { "increment": n } }`, are not recorded: replayed after being received
+ * by the server, they would be added twice. They are sent once the writes of the previous process are replayed.
+ */
+export interface OutboxOptions {
+	/** The JSON lines file in which the pending writes are recorded */
+	file: string;
+}
+
+export interface ServerTimeOptions {
+	/**
+	 * The path where the admin client, whose `.info/serverTimeOffset` stays at zero, writes a server timestamp
+	 * to measure the offset. The timestamp is removed once read. Default: `_serverTime`
+	 */
+	scratchPath?: string;
+	/** The minimum change of the offset, in milliseconds, to emit the `server-time-offset` event. Default: `1000` */
+	threshold?: number;
+}
+
+export interface RestToken {
+	/** The query parameter of the token: `auth` for an ID token or a secret, `access_token` for an OAuth2 token */
+	param: "access_token" | "auth";
+	token: string;
+}
+
+export type RestTokenProvider = () => Promise<RestToken | undefined>;
+
+export interface RestOptions {
+	/** The token sent as `auth` parameter instead of the one of the client, e.g. a secret or for a local stand-in */
+	auth?: string | (() => Promise<string | undefined> | string | undefined);
+	/** The URL of the database, e.g. of a local stand-in. Default: the `databaseURL` of the app */
+	url?: string;
+}
+
+/** The `auth` variable of the security rules */
+export interface RuleAuth {
+	uid: string;
+	/** The sign-in method, e.g. `password` or `anonymous` */
+	provider?: string;
+	/** The claims of the ID token, custom claims included */
+	token: Record<string, unknown>;
+}
+
+/** The rules as the content of `database.rules.json`, comments allowed, or as the parsed object */
+export type RulesSource = string | { rules: Record<string, unknown> };
+
+export interface RulesContext {
+	/** The `auth` variable, `null` if not signed in. Default: `null` */
+	auth?: RuleAuth | null;
+	/** The whole tree of the database, in the export format or not. Default: empty */
+	data?: unknown;
+	/** The `now` variable, in milliseconds since the epoch. Default: the current time */
+	now?: number;
+}
+
+export interface RulesResult {
+	allowed: boolean;
+	/** The location where the access has been denied */
+	path?: string;
+	/** The rule which has denied the access, e.g. `/users/$uid/.validate`, none if no rule grants it */
+	rule?: string;
+	/** Why the access has been denied, e.g. the error thrown by the expression */
+	reason?: string;
+}
+
+export interface RulesOptions {
+	/** The `auth` variable. Default: the signed in user, the rules are not checked with the Admin SDK */
+	auth?: RuleAuth | null | (() => Promise<RuleAuth | null> | RuleAuth | null);
+	/** Provides the local copy of the whole tree, e.g. from a Mirror of the root. Default: empty */
+	data?: () => unknown;
+	/** The security rules */
+	source: RulesSource;
+}
+
+export interface RTDBOptions {
+	/** Records the writes in a file to replay them if the process restarts before they reach the server */
+	outbox?: OutboxOptions;
+	/** Uses the REST API and Server-Sent Events instead of the WebSocket of the SDKs */
+	rest?: RestOptions;
+	/** Checks the reads and writes against the security rules locally, before sending them */
+	rules?: RulesOptions;
+	serverTime?: ServerTimeOptions;
 }
 
 export enum ListenerMap {
@@ -48,13 +176,36 @@ export enum QueryMethodMap {
 
 export type QueryMethod = keyof typeof QueryMethodMap;
 
-export interface QuerySignature {
-	set: [value: unknown];
-	push: [value: unknown];
-	update: [value: object];
+export interface QuerySignature<V = unknown> {
+	set: [value: WriteValue<V>];
+	push: [value: WriteValue<ChildData<V>>];
+	update: [value: unknown extends V ? object : Partial<WriteValue<V>>];
 	remove: [value?: null];
 	setPriority: [priority: string | number | null];
-	setWithPriority: [value: unknown, priority: string | number | null];
+	setWithPriority: [value: WriteValue<V>, priority: string | number | null];
+}
+
+export type MultiPathUpdate = Record<string, unknown>;
+
+export interface OutboxWrite {
+	id: string;
+	method: QueryMethod;
+	path: string;
+	args: unknown[];
+}
+
+export interface OutboxWriteEvent {
+	id: string;
+	method: QueryMethod;
+	path: string;
+	/**
+	 * - `queued`: recorded, waiting for the server
+	 * - `replaying`: recorded by a previous process, sent again
+	 * - `written`: received by the server
+	 * - `failed`: rejected by the server, will not be replayed
+	 */
+	status: "queued" | "replaying" | "written" | "failed";
+	error?: Error;
 }
 
 export enum OnDisconnectMethodMap {
@@ -75,6 +226,47 @@ export interface OnDisconnectSignature {
 
 export type OnDisconnectMethod = keyof typeof OnDisconnectMethodMap;
 
+/**
+ * Portable placeholder, in the format of the REST API, replaced by the server value of the SDK in use before writing.
+ * - `{ ".sv": "timestamp" }` for the server timestamp
+ * - `{ ".sv": { "increment": number } }` to increment the current value atomically
+ */
+export type ServerValuePlaceholder = { ".sv": "timestamp" } | { ".sv": { increment: number } };
+
+/**
+ * The value to write, where a number can be replaced by a server value placeholder.
+ */
+export type WriteValue<V> = unknown extends V
+	? unknown
+	: V extends number
+	? V | ServerValuePlaceholder
+	: V extends object
+	? { [K in keyof V]: WriteValue<V[K]> }
+	: V;
+
+export enum WatchOverflowMap {
+	"drop-oldest",
+	"drop-newest",
+	"error",
+}
+
+export type WatchOverflow = keyof typeof WatchOverflowMap;
+
+export interface WatchOptions {
+	/** Maximum number of events waiting to be consumed. Default: `100` */
+	bufferSize?: number;
+	/** What to do when an event is received while the buffer is full. Default: `drop-oldest` */
+	overflow?: WatchOverflow;
+}
+
+export interface WatchEvent<S = BothDataSnapshot> {
+	listener: Listener;
+	key: string | null;
+	value: S extends { val(): infer V } ? V : unknown;
+	previousChildName?: string | null;
+	snapshot: S;
+}
+
 export type ValueField = number | string | boolean | null;
 
 export interface RangeQuery {
@@ -96,8 +288,259 @@ export interface QueryConstraintType {
 	startAt?: RangeQuery;
 }
 
-export type BothDataSnapshot = AdminDataSnapshot | DataSnapshot;
+export type BothDataSnapshot = AdminDataSnapshot | DataSnapshot | RestDataSnapshot;
+
+export type TreeFormat = "json" | "ndjson";
+
+export interface ExportTreeOptions {
+	/** The number of children got per query. Default: `100` */
+	chunkSize?: number;
+	/** Whether the writable is ended once the tree is exported. Default: `true` */
+	end?: boolean;
+	/**
+	 * - `json`: an object of the children
+	 * - `ndjson`: a line `{ "key": string, "value": unknown }` per child
+	 *
+	 * Default: `json`
+	 */
+	format?: TreeFormat;
+}
+
+export interface ImportTreeOptions {
+	/** The number of children written per update. Default: `100` */
+	batchSize?: number;
+	/** The format of the readable, see {@link ExportTreeOptions.format}. Default: `json` */
+	format?: TreeFormat;
+	/**
+	 * - `set`: the node is removed before being imported, once the first batch is checked
+	 * - `merge`: only the imported children are replaced
+	 *
+	 * Default: `set`
+	 */
+	mode?: "set" | "merge";
+}
+
+export interface TreeProgressEvent {
+	path?: string;
+	/** The number of children exported or imported so far */
+	count: number;
+}
+
+export interface ValidateValueOptions {
+	/** The path to which the value is written, counted in the depth. Default: the root */
+	path?: string;
+	/** Whether the top keys of the value are paths, as for `update`. Default: `false` */
+	updatePaths?: boolean;
+}
+
+export interface ValueViolation {
+	/** The absolute path of the invalid node */
+	path: string;
+	message: string;
+}
+
+export interface SerializeOptions {
+	/** The depth of the children to serialize, `Infinity` for the whole tree. Default: `1` */
+	depth?: number;
+}
+
+export interface SerializedSnapshot {
+	key: string | null;
+	/** The absolute path, `/` for the root */
+	path: string;
+	value: unknown;
+	priority: string | number | null;
+	exists: boolean;
+	/** The number of children */
+	size: number;
+	/** The children in the order of the query, empty beyond the depth serialized */
+	children: SerializedSnapshot[];
+}
+
+export type PaginateOrderBy = "key" | "priority" | "value" | { child: string };
+
+export interface PaginateOptions {
+	/** The cursor returned with the previous page, from the first (or last if backward) child if omitted */
+	cursor?: string;
+	/** The paging direction, `backward` starts from the last child. Default: `forward` */
+	direction?: "forward" | "backward";
+	/** How the children are ordered. Default: `key` */
+	orderBy?: PaginateOrderBy;
+	/** The maximum number of children per page. Default: `50` */
+	pageSize?: number;
+}
+
+export interface PageItem<V = unknown> {
+	key: string;
+	value: V;
+}
+
+export interface Page<V = unknown> {
+	/** The children of the page, in query order whatever the direction */
+	items: PageItem<V>[];
+	/** The opaque cursor to give to get the next page, `undefined` if the page is empty */
+	cursor?: string;
+	/** Whether there are more children after this page */
+	hasMore: boolean;
+}
+
+export interface TransactionOptions {
+	/**
+	 * Whether the intermediate states are raised locally each time the update function runs.
+	 * Set to `false` to raise events only once the transaction has completed. Default: `true`
+	 */
+	applyLocally?: boolean;
+	/**
+	 * Maximum number of times the update function is re-run after a conflict before the transaction is aborted.
+	 * With the SDKs, the first run on the local cache is not counted. Default: the SDK limit (25)
+	 */
+	maxRetries?: number;
+}
+
+export interface TransactionResult {
+	committed: boolean;
+	snapshot: BothDataSnapshot;
+}
+
+export type TransactionUpdate = (currentData: unknown) => unknown;
+
+/**
+ * The state the data must still have for the write to happen:
+ * - `value`: the value last read
+ * - `hash`: the content hash of the value last read, see `doGetQuery`
+ * - `version`: the value of the version field (default: `version`), the written value should contain the next version
+ */
+export type WriteCondition = { value: unknown } | { hash: string } | { version: unknown; versionField?: string };
+
+export interface GetOptions {
+	/** Whether to return the content hash of the value, to be used as a write condition. Default: `false` */
+	hash?: boolean;
+}
+
+export interface HashedSnapshot<S = BothDataSnapshot> {
+	snapshot: S;
+	hash: string;
+}
 
 export type DBRef = Reference | Query;
 
+/**
+ * The paths allowed by the schema of the database, any path if the RTDB is not typed.
+ */
+export type RTDBPath<Schema> = unknown extends Schema ? string : SchemaPath<Schema>;
+
+/**
+ * The value at the path of the database, the whole database if the path is omitted.
+ */
+export type RTDBValue<Schema, Path extends string = never> = unknown extends Schema
+	? unknown
+	: [Path] extends [never]
+	? SchemaData<Schema>
+	: SchemaData<SchemaAt<Schema, Path>>;
+
+export type TypedDataSnapshot<V> =
+	| (Omit<AdminDataSnapshot, "val"> & { val(): V | null })
+	| (Omit<DataSnapshot, "val"> & { val(): V | null })
+	| (Omit<RestDataSnapshot, "val"> & { val(): V | null });
+
+/**
+ * The snapshot of the path of the database, untyped if the RTDB is not typed.
+ */
+export type RTDBSnapshot<Schema, Path extends string = never> = unknown extends Schema
+	? BothDataSnapshot
+	: TypedDataSnapshot<RTDBValue<Schema, Path>>;
+
+/**
+ * The snapshot received by the listener, that of a child of the path for the `child_*` listeners.
+ */
+export type RTDBListenerSnapshot<Schema, L extends Listener, Path extends string = never> = unknown extends Schema
+	? BothDataSnapshot
+	: TypedDataSnapshot<L extends "value" ? RTDBValue<Schema, Path> : ChildData<RTDBValue<Schema, Path>>>;
+
 export type Unsubscription = Unsubscribe | ((a: AdminDataSnapshot | null, b?: string | null) => void);
+
+export type SubscriptionCallback<S = BothDataSnapshot> = (snapshot: S, previousChildName?: string | null) => void;
+
+export type SubscriptionErrorCallback = (error: Error) => void;
+
+export interface SubscriptionEvent<S = BothDataSnapshot> {
+	snapshot: S;
+	previousChildName?: string | null;
+}
+
+export type BatchCallback<S = BothDataSnapshot> = (events: SubscriptionEvent<S>[]) => void;
+
+export interface DebounceDelivery {
+	mode: "debounce";
+	/** The quiet period, in milliseconds, after which the last event of each child is delivered */
+	wait: number;
+}
+
+export interface ThrottleDelivery {
+	mode: "throttle";
+	/** The duration of the interval, in milliseconds */
+	interval: number;
+	/** The maximum number of events delivered per interval, the next ones wait for the following intervals */
+	limit: number;
+}
+
+export interface BatchDelivery {
+	mode: "batch";
+	/** The maximum time, in milliseconds, an event waits before its batch is delivered */
+	interval?: number;
+	/** The number of events from which the batch is delivered */
+	size?: number;
+}
+
+export type DeliveryOptions = BatchDelivery | DebounceDelivery | ThrottleDelivery;
+
+export enum JsonPatchOperationMap {
+	"add",
+	"remove",
+	"replace",
+}
+
+export type JsonPatchOp = keyof typeof JsonPatchOperationMap;
+
+/**
+ * A JSON Patch (RFC 6902) operation, the path is a JSON Pointer (RFC 6901).
+ */
+export type JsonPatchOperation =
+	| { op: Exclude<JsonPatchOp, "remove">; path: string; value: unknown }
+	| { op: "remove"; path: string; value?: never };
+
+export type ChangesCallback<S = BothDataSnapshot> = (operations: JsonPatchOperation[], snapshot: S) => void;
+
+export interface Subscription {
+	id: string;
+	listener: Listener;
+	path?: string;
+	constraints?: QueryConstraintType;
+	callback: SubscriptionCallback | BatchCallback;
+	errorCallback?: SubscriptionErrorCallback;
+	delivery?: DeliveryOptions;
+	/** Whether the subscription has been cancelled by the server, e.g. when the read access is revoked */
+	cancelled: boolean;
+}
+
+export interface SubscriptionErrorEvent {
+	/** The ID of the subscription, `undefined` for the subscriptions internal to the library */
+	id?: string;
+	listener: Listener;
+	path?: string;
+	/** The code of the error in the code space of the library, e.g. `rtdb/permission-denied` */
+	code: string;
+	error: Error;
+}
+
+/**
+ * @internal
+ */
+export interface SubscriptionEntry extends Subscription {
+	/** Delivers the events according to the delivery options */
+	deliverer?: Delivery;
+	/** The handle returned to the caller, stable across re-subscriptions */
+	handle?: Unsubscription;
+	/** The handle of the listener currently attached to the database */
+	unsubscription?: Unsubscription;
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import { hasIncrement, hashValue } from "./utils";
+
+describe("hashValue", () => {
+	it("gives the same hash to equal values whatever the order of the keys", () => {
+		assert.equal(hashValue({ a: 1, b: { c: true } }), hashValue({ b: { c: true }, a: 1 }));
+	});
+
+	it("gives different hashes to different values", () => {
+		assert.notEqual(hashValue({ a: 1 }), hashValue({ a: 2 }));
+		assert.notEqual(hashValue("1"), hashValue(1));
+	});
+
+	it("hashes an array like the exported node with integer keys", () => {
+		assert.equal(hashValue(["a", "b"]), hashValue({ 0: "a", 1: "b" }));
+		assert.equal(hashValue({ list: [1, 2, 3] }), hashValue({ list: { "0": 1, "1": 2, "2": 3 } }));
+	});
+
+	it("hashes a sparse array like the node without the missing indexes", () => {
+		const sparse = ["a"];
+		sparse[2] = "c";
+
+		assert.equal(hashValue(sparse), hashValue({ 0: "a", 2: "c" }));
+		assert.equal(hashValue(["a", null, "c"]), hashValue({ 0: "a", 2: "c" }));
+	});
+
+	it("ignores the priorities and the null children", () => {
+		assert.equal(hashValue({ ".priority": 1, a: { ".value": "x", ".priority": 2 } }), hashValue({ a: "x" }));
+		assert.equal(hashValue({ a: 1, b: null }), hashValue({ a: 1 }));
+		assert.equal(hashValue({}), hashValue(null));
+	});
+});
+
+describe("hasIncrement", () => {
+	it("finds an increment at any depth", () => {
+		assert.equal(hasIncrement({ ".sv": { increment: 1 } }), true);
+		assert.equal(hasIncrement({ "users/alice/visits": { ".sv": { increment: 1 } } }), true);
+		assert.equal(hasIncrement({ stats: [{ count: { ".sv": { increment: -2 } } }] }), true);
+	});
+
+	it("ignores the other values", () => {
+		assert.equal(hasIncrement({ ".sv": "timestamp" }), false);
+		assert.equal(hasIncrement({ increment: 1 }), false);
+		assert.equal(hasIncrement(null), false);
+		assert.equal(hasIncrement("increment"), false);
+	});
+});
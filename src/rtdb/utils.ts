@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from "crypto";
+import { restParametersIgnored } from "./constants";
+import { RTDBError } from "./rtdb-error";
+import {
+	BothDataSnapshot,
+	QueryConstraintType,
+	RTDBErrorCode,
+	SerializedSnapshot,
+	SerializeOptions,
+	ServerValuePlaceholder,
+} from "./types";
+import { isFirebaseError } from "../client";
+import { classifyErrorCode, FirebaseNodeJSError, FirebaseNodeJSErrorOptions } from "../utils";
+
+/**
+ * Gets the priority of the snapshot, whatever the SDK it comes from.
+ * @param snapshot The snapshot
+ * @returns The priority of the snapshot
+ */
+function getPriority(snapshot: BothDataSnapshot): string | number | null {
+	return "getPriority" in snapshot ? snapshot.getPriority() : snapshot.priority;
+}
+
+/**
+ * Gets the path of the snapshot, whatever the SDK it comes from.
+ * @param snapshot The snapshot
+ * @returns The path of the snapshot, `/` for the root
+ */
+function getPath(snapshot: BothDataSnapshot): string {
+	return decodeURIComponent(new URL(snapshot.ref.toString()).pathname);
+}
+
+/**
+ * Converts the snapshot, admin or client, to a plain object.
+ * Unlike `val()`, the children are kept in the order of the query.
+ * @param snapshot The snapshot to serialize
+ * @param options The depth of the children to serialize
+ * @returns The plain object of the snapshot
+ */
+function serializeSnapshot(snapshot: BothDataSnapshot, options: SerializeOptions = {}): SerializedSnapshot {
+	const { depth = 1 } = options;
+
+	if (typeof depth !== "number" || depth < 0)
+		throw new RTDBError("rtdb/invalid-options", "The 'depth' option must be a number >= 0!");
+
+	const children: SerializedSnapshot[] = [];
+
+	if (depth > 0) {
+		snapshot.forEach((child: BothDataSnapshot) => {
+			children.push(serializeSnapshot(child, { depth: depth - 1 }));
+		});
+	}
+
+	return {
+		key: snapshot.key,
+		path: getPath(snapshot),
+		value: snapshot.val(),
+		priority: getPriority(snapshot),
+		exists: snapshot.exists(),
+		size: "size" in snapshot ? snapshot.size : snapshot.numChildren(),
+		children,
+	};
+}
+
+/**
+ * Converts a serialized snapshot to the payload returned by `exportVal()`, where the priorities
+ * are kept in `.priority` keys. This payload can be written as is to restore the priorities.
+ * @param serialized The serialized snapshot
+ * @returns The payload with the priorities
+ */
+function deserializeSnapshot(serialized: SerializedSnapshot): unknown {
+	if (!serialized || typeof serialized !== "object")
+		throw new RTDBError("rtdb/invalid-argument", "The serialized snapshot must be an object!");
+
+	const { children, priority, size, value } = serialized;
+
+	// The children not serialized are written without their priority
+	if (!children?.length || children.length !== size) {
+		return priority === null || priority === undefined ? value : { ".value": value, ".priority": priority };
+	}
+
+	const payload: Record<string, unknown> = {};
+
+	for (const child of children) {
+		if (child.key !== null) payload[child.key] = deserializeSnapshot(child);
+	}
+
+	if (priority !== null && priority !== undefined) payload[".priority"] = priority;
+
+	return payload;
+}
+
+function parseParameter(name: string, raw: string): unknown {
+	try {
+		return JSON.parse(raw);
+	} catch {
+		throw new RTDBError("rtdb/invalid-query", `The value of the "${name}" parameter must be JSON, got ${raw}`);
+	}
+}
+
+/**
+ * Converts a query string of the REST API, like `orderBy="height"&startAt=3&limitToFirst=10`,
+ * to Query constraints. The parameters that are not constraints, like `print` or `auth`, are ignored.
+ * @param queryString The query string, with or without the leading `?`
+ * @returns The Query constraints
+ */
+function parseQueryString(queryString: string | URLSearchParams): QueryConstraintType {
+	const params = typeof queryString === "string" ? new URLSearchParams(queryString.replace(/^\?/, "")) : queryString;
+	const constraints: QueryConstraintType = {};
+
+	for (const [name, raw] of params) {
+		switch (name) {
+			case "orderBy": {
+				const orderBy = parseParameter(name, raw);
+
+				if (typeof orderBy !== "string" || !orderBy)
+					throw new RTDBError(
+						"rtdb/invalid-query",
+						`The value of the "orderBy" parameter must be a non-empty JSON string, got ${raw}`
+					);
+
+				if (orderBy === "$key") {
+					constraints.orderByKey = null;
+				} else if (orderBy === "$priority") {
+					constraints.orderByPriority = null;
+				} else if (orderBy === "$value") {
+					constraints.orderByValue = null;
+				} else {
+					constraints.orderByChild = orderBy;
+				}
+				break;
+			}
+			case "limitToFirst":
+			case "limitToLast": {
+				const limit = parseParameter(name, raw);
+
+				if (typeof limit !== "number")
+					throw new RTDBError("rtdb/invalid-query", `The value of the "${name}" parameter must be a number`);
+
+				constraints[name] = limit;
+				break;
+			}
+			case "endAt":
+			case "endBefore":
+			case "equalTo":
+			case "startAfter":
+			case "startAt": {
+				const value = parseParameter(name, raw);
+
+				if (value !== null && typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean")
+					throw new RTDBError(
+						"rtdb/invalid-query",
+						`The value of the "${name}" parameter must be a boolean, number, string or null`
+					);
+
+				constraints[name] = { value };
+				break;
+			}
+			default:
+				if (!restParametersIgnored.includes(name))
+					throw new RTDBError("rtdb/invalid-query", `The query parameter "${name}" is invalid!`);
+		}
+	}
+
+	return constraints;
+}
+
+/**
+ * Serializes the value to JSON with the keys sorted, so that equal values give the same string.
+ * The priorities of an exported value are ignored. As in RTDB, an array is a node with integer keys,
+ * which `val()` returns as an array but `exportVal()` as an object, and the `null` children do not exist.
+ * @param value The value, from `val()` or `exportVal()`
+ * @returns The canonical JSON of the value
+ */
+function canonicalize(value: unknown): string {
+	if (value === undefined || value === null) return "null";
+	if (typeof value !== "object") return JSON.stringify(value);
+	if (".value" in value) return canonicalize((value as Record<string, unknown>)[".value"]);
+
+	// The keys of an array are its indexes, like those of the exported node
+	const entries = Object.entries(value)
+		.filter(([key, child]) => key !== ".priority" && child !== undefined && child !== null)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+	if (!entries.length) return "null";
+
+	return `{${entries.map(([key, child]) => `${JSON.stringify(key)}:${canonicalize(child)}`).join(",")}}`;
+}
+
+/**
+ * Computes the content hash (SHA-256) of the value, like an ETag.
+ * The hash of `exportVal()` equals the hash of `val()` because the priorities are ignored and the arrays
+ * are hashed as their nodes.
+ * @param value The value to hash
+ * @returns The hash, hex encoded
+ */
+function hashValue(value: unknown): string {
+	return createHash("sha256").update(canonicalize(value)).digest("hex");
+}
+
+/**
+ * Checks if the value contains an increment placeholder, `{ ".sv": { "increment": n } }`,
+ * whose write applied twice adds twice.
+ * @param value The value to be written
+ * @returns `true` if an increment is found
+ */
+function hasIncrement(value: unknown): boolean {
+	if (!value || typeof value !== "object") return false;
+
+	if (".sv" in value) {
+		const placeholder = (value as ServerValuePlaceholder)[".sv"];
+		return typeof placeholder === "object" && placeholder !== null && "increment" in placeholder;
+	}
+
+	return Object.values(value).some((child) => hasIncrement(child));
+}
+
+/**
+ * Wraps the error of the SDK, or of the server, in a RTDBError with the code converted and the original error as cause.
+ * @param error The error thrown
+ * @param options The context of the error
+ * @returns The RTDBError, or the error as is if it does not come from the database
+ */
+function toRTDBError<E>(error: E, options?: FirebaseNodeJSErrorOptions): E | RTDBError {
+	if (error instanceof FirebaseNodeJSError || !isFirebaseError(error)) return error;
+
+	const code = classifyErrorCode(error);
+
+	if (!code?.startsWith("rtdb/")) return error;
+
+	return new RTDBError(code as RTDBErrorCode, error.message, { ...options, cause: error });
+}
+
+export { deserializeSnapshot, getPriority, hasIncrement, hashValue, parseQueryString, serializeSnapshot, toRTDBError };
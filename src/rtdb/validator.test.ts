@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import { RTDBValidationError } from "./rtdb-error";
+import { validateValue } from "./validator";
+
+describe("validateValue", () => {
+	it("reports the path of the invalid child", () => {
+		const violations = validateValue({ alice: { age: NaN } }, { path: "users" });
+
+		assert.deepEqual(
+			violations.map(({ path }) => path),
+			["/users/alice/age"]
+		);
+	});
+
+	it("reports the path of the invalid child of an update", () => {
+		const violations = validateValue({ "alice/name": { "bad.key": 1 } }, { path: "users", updatePaths: true });
+
+		assert.deepEqual(
+			violations.map(({ path }) => path),
+			["/users/alice/name/bad.key"]
+		);
+	});
+
+	it("accepts the server value placeholders and the exported values", () => {
+		assert.deepEqual(validateValue({ at: { ".sv": "timestamp" }, score: { ".value": 1, ".priority": 2 } }), []);
+	});
+});
+
+describe("RTDBValidationError", () => {
+	it("has the path of the first invalid child", () => {
+		const error = new RTDBValidationError(validateValue({ alice: { age: Infinity } }, { path: "users" }));
+
+		assert.equal(error.code, "rtdb/invalid-value");
+		assert.equal(error.path, "users/alice/age");
+		assert.match(error.message, /\/users\/alice\/age: Value must be finite/);
+	});
+});
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MAX_DEPTH, MAX_KEY_BYTES, MAX_STRING_BYTES, MAX_WRITE_BYTES } from "./constants";
+import { ValidateValueOptions, ValueViolation } from "./types";
+
+/**
+ * Checks if the string contains an ASCII control character, forbidden in keys.
+ * @param str The string to check
+ * @returns `true` if the string contains a control character
+ */
+function hasControlCharacter(str: string): boolean {
+	for (let i = 0; i < str.length; i++) {
+		const code = str.charCodeAt(i);
+		if (code <= 31 || code === 127) return true;
+	}
+
+	return false;
+}
+
+/**
+ * Checks the key to match Firebase rules.
+ * @param key The key to check
+ * @returns The reason why the key is invalid, `undefined` if valid
+ */
+function checkKey(key: string): string | undefined {
+	if (!key) return "Key must be non-empty string";
+	if (key.match(/[.#$\[\]\/]/g)) return `Key must not contain ".", "#", "$", "/", "[", or "]"`;
+	if (hasControlCharacter(key)) return "Key must not contain control characters";
+	if (Buffer.byteLength(key) > MAX_KEY_BYTES) return `Key must not exceed ${MAX_KEY_BYTES} bytes`;
+}
+
+function isPlainObject(value: object): boolean {
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Walks the value to be written and reports every violation of the Firebase rules.
+ * The server value placeholders and the `.value`/`.priority` keys of `exportVal()` are allowed.
+ * @param value The value to be written
+ * @param options The path to which the value is written and whether the top keys are paths
+ * @returns The violations found, empty if the value is valid
+ */
+function validateValue(value: unknown, options: ValidateValueOptions = {}): ValueViolation[] {
+	const { path = "", updatePaths = false } = options;
+	const basePath = path.split("/").filter((segment) => segment.trim());
+	const violations: ValueViolation[] = [];
+
+	const walk = (value: unknown, segments: string[], topLevel: boolean) => {
+		const location = `/${segments.join("/")}`;
+
+		switch (typeof value) {
+			case "boolean":
+				return;
+			case "number":
+				if (!Number.isFinite(value)) violations.push({ path: location, message: `Value must be finite, got ${value}` });
+				return;
+			case "string":
+				if (Buffer.byteLength(value) > MAX_STRING_BYTES)
+					violations.push({ path: location, message: `String must not exceed ${MAX_STRING_BYTES} bytes` });
+				return;
+			case "object":
+				break;
+			default:
+				violations.push({ path: location, message: `Value must be JSON, got ${typeof value}` });
+				return;
+		}
+
+		if (value === null) return;
+
+		if (!Array.isArray(value) && !isPlainObject(value)) {
+			violations.push({ path: location, message: `Value must be JSON, got ${value.constructor?.name ?? "object"}` });
+			return;
+		}
+
+		if (segments.length >= MAX_DEPTH) {
+			violations.push({ path: location, message: `Value must not exceed ${MAX_DEPTH} levels of depth` });
+			return;
+		}
+
+		for (const [key, child] of Object.entries(value)) {
+			// Server value placeholder or SDK sentinel
+			if (key === ".sv") continue;
+
+			if (key === ".value") {
+				walk(child, segments, false);
+				continue;
+			}
+
+			if (key === ".priority") {
+				if (child !== null && typeof child !== "string" && !(typeof child === "number" && Number.isFinite(child)))
+					violations.push({ path: `${location}/.priority`, message: "Priority must be a string, number or null" });
+				continue;
+			}
+
+			// The keys of an update are paths relative to the written one
+			const keySegments = topLevel && updatePaths ? key.split("/").filter((segment) => segment) : [key];
+			const childPath = [...segments, ...keySegments];
+
+			for (const segment of keySegments.length ? keySegments : [key]) {
+				const reason = checkKey(segment);
+				if (reason) violations.push({ path: `/${childPath.join("/")}`, message: `${reason}, got "${segment}"` });
+			}
+
+			walk(child, childPath, false);
+		}
+	};
+
+	walk(value, basePath, true);
+
+	if (!violations.length) {
+		const size = Buffer.byteLength(JSON.stringify(value) ?? "");
+
+		if (size > MAX_WRITE_BYTES)
+			violations.push({ path: `/${basePath.join("/")}`, message: `Write must not exceed ${MAX_WRITE_BYTES} bytes` });
+	}
+
+	return violations;
+}
+
+export { checkKey, hasControlCharacter, validateValue };
@@ -0,0 +1,559 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Storage as GCSStorage } from "@google-cloud/storage";
+import { FirebaseApp } from "firebase/app";
+import * as storage from "firebase/storage";
+import { connectStorageEmulator, FirebaseStorage, FullMetadata, getStorage, ref } from "firebase/storage";
+import { App } from "firebase-admin/app";
+import { getStorage as adminGetStorage } from "firebase-admin/storage";
+import { PassThrough, pipeline, Readable } from "stream";
+import { TypedEmitter } from "tiny-typed-emitter";
+import { promisify } from "util";
+import { StorageError } from "./storage-error";
+import {
+	DownloadOptions,
+	FileMetadata,
+	ListOptions,
+	ListResult,
+	SignedURLActionMap,
+	SignedURLOptions,
+	StorageEmulatorOptions,
+	StorageOptions,
+	UploadMetadata,
+} from "./types";
+import { toStorageError } from "./utils";
+import { AdminClient, AdminClientEvents, BaseClient, Client } from "../client";
+import { FirebaseNodeJSErrorOptions, printEnumKeys } from "../utils";
+
+// The bucket of the admin SDK, from `@google-cloud/storage`
+type AdminBucket = ReturnType<ReturnType<typeof adminGetStorage>["bucket"]>;
+
+interface AdminFileMetadata {
+	bucket?: string;
+	cacheControl?: string;
+	contentDisposition?: string;
+	contentEncoding?: string;
+	contentLanguage?: string;
+	contentType?: string;
+	md5Hash?: string;
+	metadata?: Record<string, string>;
+	name?: string;
+	size?: string | number;
+	timeCreated?: string;
+	updated?: string;
+}
+
+/**
+ * The Cloud Storage bucket of the client, the same for the admin and client SDKs.
+ */
+export class Storage {
+	private _app?: App | FirebaseApp;
+	private _bucket!: AdminBucket | FirebaseStorage;
+	private _emulator?: StorageEmulatorOptions;
+
+	constructor(public readonly client: AdminClient | BaseClient | Client, protected options: StorageOptions = {}) {
+		if (!(client instanceof AdminClient) && !(client instanceof BaseClient) && !(client instanceof Client))
+			throw new StorageError("storage/invalid-argument", "Storage must be instantiated with Client as parameter");
+		if (options.bucket !== undefined && (typeof options.bucket !== "string" || !options.bucket))
+			throw new StorageError("storage/invalid-bucket", "The bucket must be a non-empty string!");
+
+		const emulator = options.emulator ?? Storage.parseEmulatorHost(process.env.FIREBASE_STORAGE_EMULATOR_HOST);
+
+		if (emulator && (typeof emulator.host !== "string" || !emulator.host))
+			throw new StorageError("storage/invalid-emulator", "The emulator host must be a non-empty string!");
+		if (emulator && !(Number.isInteger(emulator.port) && emulator.port > 0))
+			throw new StorageError("storage/invalid-emulator", "The emulator port must be an INTEGER > 0!");
+
+		this._emulator = emulator;
+		this.getBucket();
+		this.attachClientListeners();
+	}
+
+	public get bucket(): AdminBucket | FirebaseStorage {
+		return this._bucket;
+	}
+
+	private attachClientListeners() {
+		// Each client emits these events, the union of their emitters is just not callable
+		const client = this.client as TypedEmitter<AdminClientEvents>;
+
+		client.on("signed-in", () => this.restoreBucket());
+	}
+
+	protected checkMetadata(metadata: unknown): UploadMetadata {
+		if (metadata === undefined) return {};
+		if (!metadata || typeof metadata !== "object")
+			throw new StorageError("storage/invalid-metadata", "The metadata must be an object!");
+
+		const { customMetadata, ...fields } = metadata as UploadMetadata;
+
+		for (const [name, value] of Object.entries(fields)) {
+			if (value !== undefined && typeof value !== "string")
+				throw new StorageError("storage/invalid-metadata", `The '${name}' metadata must be a string!`);
+		}
+
+		if (
+			customMetadata !== undefined &&
+			!(
+				customMetadata &&
+				typeof customMetadata === "object" &&
+				Object.values(customMetadata).every((value) => typeof value === "string")
+			)
+		)
+			throw new StorageError("storage/invalid-metadata", "The 'customMetadata' must be an object of strings!");
+
+		return metadata as UploadMetadata;
+	}
+
+	/**
+	 * Checks if the path of the file is valid otherwise throws an error.
+	 * @param path The path to be checked
+	 * @param empty Whether the path can be empty, i.e. the root of the bucket
+	 * @returns The path without leading and trailing `/`
+	 */
+	protected checkPath(path: unknown, empty?: boolean): string {
+		if (typeof path !== "string") throw new StorageError("storage/invalid-path", "The path must be a string!");
+
+		const pathParsed = path.replace(/^\/+|\/+$/g, "");
+
+		if (!pathParsed && !empty) throw new StorageError("storage/invalid-path", "The path must not be empty!");
+		if (Buffer.byteLength(pathParsed) > 1024)
+			throw new StorageError("storage/invalid-path", "The path must not exceed 1024 bytes!");
+		if (/[\r\n]/.test(pathParsed))
+			throw new StorageError("storage/invalid-path", "The path must not contain carriage returns or line feeds!");
+
+		return pathParsed;
+	}
+
+	public async delete(path: string): Promise<void> {
+		const pathParsed = this.checkPath(path);
+
+		await this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._bucket)) {
+					await this._bucket.file(pathParsed).delete();
+					return;
+				}
+
+				await storage.deleteObject(ref(this._bucket, pathParsed));
+			},
+			{ method: "delete", path: pathParsed }
+		);
+	}
+
+	/**
+	 * Downloads the whole file in memory.
+	 * @param path The path of the file
+	 * @param options The maximum size of the file
+	 * @returns The content of the file
+	 */
+	public async download(path: string, options: DownloadOptions = {}): Promise<Buffer> {
+		const pathParsed = this.checkPath(path);
+		const { maxSize } = options;
+
+		if (maxSize !== undefined && !(Number.isInteger(maxSize) && maxSize > 0))
+			throw new StorageError("storage/invalid-options", "The 'maxSize' option must be an INTEGER > 0!");
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._bucket)) {
+					const file = this._bucket.file(pathParsed);
+
+					if (maxSize !== undefined) {
+						const [metadata] = await file.getMetadata();
+						if (Number(metadata.size) > maxSize)
+							throw new StorageError(
+								"storage/max-size-exceeded",
+								`The file "${pathParsed}" exceeds the maximum size of ${maxSize} bytes`,
+								{ path: pathParsed }
+							);
+					}
+
+					const [content] = await file.download();
+					return content;
+				}
+
+				return Buffer.from(await storage.getBytes(ref(this._bucket, pathParsed), maxSize));
+			},
+			{ method: "download", path: pathParsed }
+		);
+	}
+
+	/**
+	 * Downloads the file as a stream, without holding it in memory.
+	 * @param path The path of the file
+	 * @returns The readable stream of the content
+	 */
+	public downloadStream(path: string): Readable {
+		const pathParsed = this.checkPath(path);
+		const readable = this.isAdmin(this._bucket)
+			? this._bucket.file(pathParsed).createReadStream()
+			: (storage.getStream(ref(this._bucket, pathParsed)) as Readable);
+		const wrapped = new PassThrough();
+
+		// The errors of the SDK are emitted once the stream is returned
+		readable.on("error", (error) =>
+			wrapped.destroy(toStorageError(error, { method: "downloadStream", path: pathParsed }))
+		);
+		wrapped.on("close", () => readable.destroy());
+
+		return readable.pipe(wrapped);
+	}
+
+	private getBucket() {
+		if (!this.client.app || !this.client.clientInitialised)
+			throw new StorageError("storage/not-initialized", "Storage is called before the Client is initialized");
+
+		const { bucket } = this.options;
+
+		if (this.isAdminApp(this.client.app)) {
+			this._app = this.client.app;
+
+			if (!this._emulator) {
+				this._bucket = adminGetStorage(this.client.app).bucket(bucket);
+				return;
+			}
+
+			// The admin SDK only reads the emulator host from the environment, so this instance has its own
+			// Cloud Storage client, which does not authenticate the requests sent to a custom endpoint
+			const { projectId, storageBucket } = this.client.app.options;
+			const bucketName = bucket ?? storageBucket;
+
+			if (!bucketName)
+				throw new StorageError(
+					"storage/invalid-bucket",
+					"The bucket is missing, set it in the app config or the options"
+				);
+
+			const { host, port } = this._emulator;
+
+			this._bucket = new GCSStorage({ apiEndpoint: `http://${host}:${port}`, projectId }).bucket(bucketName);
+			return;
+		}
+
+		const firebaseStorage = getStorage(this.client.app, bucket && `gs://${bucket.replace(/^gs:\/\//, "")}`);
+
+		if (this._emulator) connectStorageEmulator(firebaseStorage, this._emulator.host, this._emulator.port);
+
+		this._app = this.client.app;
+		this._bucket = firebaseStorage;
+	}
+
+	/**
+	 * Gets the URL to download the file with its download token, as the Firebase console does.
+	 * With the admin SDK, the file must have a download token, e.g. uploaded by a client.
+	 * @param path The path of the file
+	 * @returns The download URL
+	 */
+	public async getDownloadURL(path: string): Promise<string> {
+		const pathParsed = this.checkPath(path);
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._bucket)) {
+					const [metadata] = await this._bucket.file(pathParsed).getMetadata();
+					const token = (metadata as AdminFileMetadata).metadata?.firebaseStorageDownloadTokens?.split(",")[0];
+
+					if (!token)
+						throw new StorageError(
+							"storage/missing-token",
+							`The file "${pathParsed}" does not have a download token, use a signed URL instead`,
+							{ path: pathParsed }
+						);
+
+					const origin = this._emulator
+						? `http://${this._emulator.host}:${this._emulator.port}`
+						: "https://firebasestorage.googleapis.com";
+
+					return `${origin}/v0/b/${this._bucket.name}/o/${encodeURIComponent(pathParsed)}?alt=media&token=${token}`;
+				}
+
+				return storage.getDownloadURL(ref(this._bucket, pathParsed));
+			},
+			{ method: "getDownloadURL", path: pathParsed }
+		);
+	}
+
+	public async getMetadata(path: string): Promise<FileMetadata> {
+		const pathParsed = this.checkPath(path);
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._bucket)) {
+					const [metadata] = await this._bucket.file(pathParsed).getMetadata();
+					return this.toFileMetadata(metadata);
+				}
+
+				return this.toFileMetadata(await storage.getMetadata(ref(this._bucket, pathParsed)));
+			},
+			{ method: "getMetadata", path: pathParsed }
+		);
+	}
+
+	/**
+	 * Gets a URL giving a temporary access to the file without authentication. Only available with the admin SDK.
+	 * @param path The path of the file
+	 * @param options The action allowed and the expiration of the URL
+	 * @returns The signed URL
+	 */
+	public async getSignedURL(path: string, options: SignedURLOptions): Promise<string> {
+		const pathParsed = this.checkPath(path);
+
+		if (!options || typeof options !== "object")
+			throw new StorageError("storage/invalid-options", "Signed URL Options must be an object!");
+
+		const { action = "read", expires } = options;
+
+		if (!(typeof action === "string" && action in SignedURLActionMap))
+			throw new StorageError(
+				"storage/invalid-options",
+				`The 'action' option must be one of ${printEnumKeys(SignedURLActionMap)}.`
+			);
+		if (!(typeof expires === "number" || expires instanceof Date))
+			throw new StorageError("storage/invalid-options", "The 'expires' option must be a timestamp or a Date!");
+
+		if (!this.isAdmin(this._bucket))
+			throw new StorageError("storage/unsupported", "Signed URLs are only available with the admin SDK");
+
+		const bucket = this._bucket;
+		const [url] = await this.wrapErrors(
+			() => bucket.file(pathParsed).getSignedUrl({ action, expires, version: "v4" }),
+			{ method: "getSignedURL", path: pathParsed }
+		);
+
+		return url;
+	}
+
+	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+	// @ts-ignore
+	protected isAdmin(bucket: AdminBucket | FirebaseStorage): bucket is AdminBucket {
+		if (this.client.admin === undefined)
+			throw new StorageError("storage/not-initialized", "Property 'admin' missing in App class");
+		return this.client.admin;
+	}
+
+	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+	// @ts-ignore
+	protected isAdminApp(app: App | FirebaseApp): app is App {
+		if (this.client.admin === undefined)
+			throw new StorageError("storage/not-initialized", "Property 'admin' missing in App class");
+		return this.client.admin;
+	}
+
+	/**
+	 * Lists the files and the prefixes directly under the prefix, one page at a time.
+	 * @param prefix The "folder" to list, the root of the bucket if empty
+	 * @param options The size and the token of the page
+	 * @returns The page of files and prefixes
+	 */
+	public async list(prefix = "", options: ListOptions = {}): Promise<ListResult> {
+		const prefixParsed = this.checkPath(prefix, true);
+		const { maxResults, pageToken } = options;
+
+		if (maxResults !== undefined && !(Number.isInteger(maxResults) && maxResults > 0 && maxResults <= 1000))
+			throw new StorageError(
+				"storage/invalid-options",
+				"The 'maxResults' option must be an INTEGER between 1 and 1000!"
+			);
+		if (pageToken !== undefined && typeof pageToken !== "string")
+			throw new StorageError("storage/invalid-options", "The 'pageToken' option must be a string!");
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._bucket)) {
+					const [files, nextQuery, response] = await this._bucket.getFiles({
+						autoPaginate: false,
+						delimiter: "/",
+						maxResults,
+						pageToken,
+						prefix: prefixParsed && `${prefixParsed}/`,
+					});
+					const prefixes = ((response as { prefixes?: string[] } | undefined)?.prefixes ?? []).map((name) =>
+						name.replace(/\/$/, "")
+					);
+
+					return {
+						files: files.map((file) => file.name),
+						prefixes,
+						nextPageToken: (nextQuery as { pageToken?: string } | null)?.pageToken,
+					};
+				}
+
+				const { items, nextPageToken, prefixes } = await storage.list(ref(this._bucket, prefixParsed), {
+					maxResults,
+					pageToken,
+				});
+
+				return {
+					files: items.map((item) => item.fullPath),
+					prefixes: prefixes.map((item) => item.fullPath),
+					nextPageToken,
+				};
+			},
+			{ method: "list", path: prefixParsed }
+		);
+	}
+
+	/**
+	 * Gets the emulator options from the `FIREBASE_STORAGE_EMULATOR_HOST` environment variable, like `localhost:9199`.
+	 * @param host The value of the environment variable
+	 * @returns The emulator options, if set
+	 */
+	private static parseEmulatorHost(host?: string): StorageEmulatorOptions | undefined {
+		if (!host) return;
+
+		const separator = host.lastIndexOf(":");
+
+		return { host: host.slice(0, separator), port: Number(host.slice(separator + 1)) };
+	}
+
+	private restoreBucket() {
+		if (!this.client.app || this.client.app === this._app) return;
+
+		this.getBucket();
+	}
+
+	private toFileMetadata(metadata: AdminFileMetadata | FullMetadata): FileMetadata {
+		const fullPath = "fullPath" in metadata ? metadata.fullPath : metadata.name ?? "";
+		const customMetadata =
+			"customMetadata" in metadata ? metadata.customMetadata : (metadata as AdminFileMetadata).metadata;
+
+		return {
+			bucket: metadata.bucket ?? "",
+			fullPath,
+			name: fullPath.split("/").pop() ?? "",
+			size: Number(metadata.size ?? 0),
+			cacheControl: metadata.cacheControl,
+			contentDisposition: metadata.contentDisposition,
+			contentEncoding: metadata.contentEncoding,
+			contentLanguage: metadata.contentLanguage,
+			contentType: metadata.contentType,
+			customMetadata,
+			md5Hash: metadata.md5Hash,
+			timeCreated: metadata.timeCreated,
+			updated: metadata.updated,
+		};
+	}
+
+	/**
+	 * Updates the metadata of the file, the fields not given are kept.
+	 * @param path The path of the file
+	 * @param metadata The metadata to update
+	 * @returns The metadata of the file updated
+	 */
+	public async updateMetadata(path: string, metadata: UploadMetadata): Promise<FileMetadata> {
+		const pathParsed = this.checkPath(path);
+		const { customMetadata, ...fields } = this.checkMetadata(metadata);
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._bucket)) {
+					const [updated] = await this._bucket.file(pathParsed).setMetadata({ ...fields, metadata: customMetadata });
+					return this.toFileMetadata(updated);
+				}
+
+				return this.toFileMetadata(await storage.updateMetadata(ref(this._bucket, pathParsed), metadata));
+			},
+			{ method: "updateMetadata", path: pathParsed }
+		);
+	}
+
+	/**
+	 * Uploads the content to the file, replacing it if it exists.
+	 * @param path The path of the file
+	 * @param data The content of the file
+	 * @param metadata The metadata of the file, like its content type
+	 * @returns The metadata of the file uploaded
+	 */
+	public async upload(path: string, data: Buffer | Uint8Array, metadata?: UploadMetadata): Promise<FileMetadata> {
+		const pathParsed = this.checkPath(path);
+		const { customMetadata, ...fields } = this.checkMetadata(metadata);
+
+		if (!(data instanceof Uint8Array))
+			throw new StorageError("storage/invalid-argument", "The data must be a Buffer or an Uint8Array!");
+
+		return this.wrapErrors(
+			async () => {
+				if (this.isAdmin(this._bucket)) {
+					const file = this._bucket.file(pathParsed);
+
+					await file.save(Buffer.from(data), {
+						metadata: { ...fields, metadata: customMetadata },
+						resumable: false,
+					});
+
+					return this.getMetadata(pathParsed);
+				}
+
+				const { metadata: uploaded } = await storage.uploadBytes(ref(this._bucket, pathParsed), data, metadata);
+
+				return this.toFileMetadata(uploaded);
+			},
+			{ method: "upload", path: pathParsed }
+		);
+	}
+
+	/**
+	 * Uploads the content of the readable stream to the file. The client SDK does not upload streams,
+	 * so the content is gathered in memory first.
+	 * @param path The path of the file
+	 * @param readable The stream from which to read the content
+	 * @param metadata The metadata of the file, like its content type
+	 * @returns The metadata of the file uploaded
+	 */
+	public async uploadStream(path: string, readable: Readable, metadata?: UploadMetadata): Promise<FileMetadata> {
+		const pathParsed = this.checkPath(path);
+		const { customMetadata, ...fields } = this.checkMetadata(metadata);
+
+		if (!(readable instanceof Readable))
+			throw new StorageError("storage/invalid-argument", "The readable must be a Readable stream");
+
+		if (this.isAdmin(this._bucket)) {
+			const writable = this._bucket
+				.file(pathParsed)
+				.createWriteStream({ metadata: { ...fields, metadata: customMetadata }, resumable: false });
+
+			await this.wrapErrors(() => promisify(pipeline)(readable, writable), {
+				method: "uploadStream",
+				path: pathParsed,
+			});
+
+			return this.getMetadata(pathParsed);
+		}
+
+		const chunks: Buffer[] = [];
+
+		for await (const chunk of readable) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+
+		return this.upload(pathParsed, Buffer.concat(chunks), metadata);
+	}
+
+	/**
+	 * Runs the query and converts the errors of the SDK, or of the server, to StorageError.
+	 * @param query The query to run
+	 * @param options The context of the errors
+	 * @returns The result of the query
+	 */
+	private async wrapErrors<T>(query: () => Promise<T>, options: FirebaseNodeJSErrorOptions): Promise<T> {
+		try {
+			return await query();
+		} catch (error) {
+			throw toStorageError(error, options);
+		}
+	}
+}
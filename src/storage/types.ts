@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** The codes of the errors of Storage */
+export type StorageErrorCode =
+	| "storage/bucket-not-found"
+	| "storage/canceled"
+	| "storage/internal-error"
+	| "storage/invalid-argument"
+	| "storage/invalid-bucket"
+	| "storage/invalid-emulator"
+	| "storage/invalid-metadata"
+	| "storage/invalid-options"
+	| "storage/invalid-path"
+	| "storage/max-size-exceeded"
+	| "storage/missing-token"
+	| "storage/not-initialized"
+	| "storage/object-not-found"
+	| "storage/project-not-found"
+	| "storage/quota-exceeded"
+	| "storage/retry-limit-exceeded"
+	| "storage/unauthenticated"
+	| "storage/unauthorized"
+	| "storage/unknown"
+	| "storage/unsupported";
+
+export interface StorageEmulatorOptions {
+	host: string;
+	port: number;
+}
+
+export interface StorageOptions {
+	/** The name of the bucket. Default: the `storageBucket` of the app config */
+	bucket?: string;
+	/** Connects to the Storage emulator. Default: the `FIREBASE_STORAGE_EMULATOR_HOST` environment variable, if set */
+	emulator?: StorageEmulatorOptions;
+}
+
+export interface UploadMetadata {
+	cacheControl?: string;
+	contentDisposition?: string;
+	contentEncoding?: string;
+	contentLanguage?: string;
+	contentType?: string;
+	customMetadata?: Record<string, string>;
+}
+
+export interface FileMetadata extends UploadMetadata {
+	bucket: string;
+	/** The full path of the file, e.g. `attachments/alan/photo.png` */
+	fullPath: string;
+	md5Hash?: string;
+	/** The name of the file, e.g. `photo.png` */
+	name: string;
+	/** The size of the file, in bytes */
+	size: number;
+	timeCreated?: string;
+	updated?: string;
+}
+
+export interface DownloadOptions {
+	/** Fails if the file is bigger, in bytes */
+	maxSize?: number;
+}
+
+export interface ListOptions {
+	/** The maximum number of files and prefixes per page. Default: 1000 */
+	maxResults?: number;
+	/** The token of the page, returned as `nextPageToken` by the previous page */
+	pageToken?: string;
+}
+
+export interface ListResult {
+	/** The full paths of the files directly under the prefix */
+	files: string[];
+	/** The full paths of the "folders" directly under the prefix */
+	prefixes: string[];
+	/** The token of the next page, `undefined` for the last one */
+	nextPageToken?: string;
+}
+
+export enum SignedURLActionMap {
+	"delete",
+	"read",
+	"write",
+}
+
+export type SignedURLAction = keyof typeof SignedURLActionMap;
+
+export interface SignedURLOptions {
+	/** Default: `read` */
+	action?: SignedURLAction;
+	/** When the URL expires, 7 days at most */
+	expires: number | Date;
+}
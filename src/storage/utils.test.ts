@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import { FirebaseError } from "firebase/app";
+import { StorageError } from "./storage-error";
+import { toStorageError } from "./utils";
+
+describe("toStorageError", () => {
+	it("keeps the code of the client SDK", () => {
+		const cause = new FirebaseError("storage/object-not-found", "Object 'a.txt' does not exist.");
+		const error = toStorageError(cause, { method: "download", path: "a.txt" });
+
+		assert.ok(error instanceof StorageError);
+		assert.equal(error.code, "storage/object-not-found");
+		assert.equal(error.message, cause.message);
+		assert.equal(error.cause, cause);
+		assert.equal(error.method, "download");
+		assert.equal(error.path, "a.txt");
+	});
+
+	it("converts the HTTP status of Cloud Storage", () => {
+		const statuses = { 401: "storage/unauthenticated", 403: "storage/unauthorized", 404: "storage/object-not-found" };
+
+		for (const [status, code] of Object.entries(statuses)) {
+			const cause = Object.assign(new Error("No such object"), { code: Number(status) });
+			const error = toStorageError(cause);
+
+			assert.ok(error instanceof StorageError);
+			assert.equal(error.code, code);
+			assert.equal(error.cause, cause);
+		}
+
+		assert.equal((toStorageError(Object.assign(new Error(), { code: 503 })) as StorageError).code, "storage/unknown");
+	});
+
+	it("keeps the other errors as is", () => {
+		const errors = [
+			new StorageError("storage/invalid-path", "The path must be a string!"),
+			new FirebaseError("auth/invalid-api-key", "Invalid API key"),
+			Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" }),
+			Object.assign(new Error("Not an HTTP status"), { code: 7 }),
+			new TypeError("The data must be a Buffer"),
+		];
+
+		for (const error of errors) assert.equal(toStorageError(error), error);
+	});
+});
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { StorageError } from "./storage-error";
+import { StorageErrorCode } from "./types";
+import { isFirebaseError } from "../client";
+import { FirebaseNodeJSError, FirebaseNodeJSErrorOptions } from "../utils";
+
+/** The HTTP statuses of the errors thrown by `@google-cloud/storage`, with the code used by the client SDK */
+const httpStatusCodes: Record<number, StorageErrorCode> = {
+	400: "storage/invalid-argument",
+	401: "storage/unauthenticated",
+	403: "storage/unauthorized",
+	404: "storage/object-not-found",
+	429: "storage/quota-exceeded",
+};
+
+/**
+ * Wraps the error of the SDK, or of the server, in a StorageError with the code converted and the original error as cause.
+ * The client SDK has codes like `storage/object-not-found`, while the admin SDK throws the HTTP status, e.g. `404`.
+ * @param error The error thrown
+ * @param options The context of the error
+ * @returns The StorageError, or the error as is if it does not come from Cloud Storage
+ */
+function toStorageError<E>(error: E, options?: FirebaseNodeJSErrorOptions): E | StorageError {
+	if (error instanceof FirebaseNodeJSError || !(error instanceof Error) || !("code" in error)) return error;
+
+	const { code } = error;
+	const codeParsed =
+		typeof code === "number" && code >= 400 && code < 600
+			? httpStatusCodes[code] ?? "storage/unknown"
+			: typeof code === "string" && code.startsWith("storage/") && isFirebaseError(error)
+			? (code as StorageErrorCode)
+			: undefined;
+
+	if (!codeParsed) return error;
+
+	return new StorageError(codeParsed, error.message, { ...options, cause: error });
+}
+
+export { toStorageError };
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface FirebaseNodeJSErrorOptions {
+	/** The original error, e.g. the `FirebaseError` of the SDK */
+	cause?: unknown;
+	/** The listener of the subscription concerned */
+	listener?: string;
+	/** The method of the query concerned */
+	method?: string;
+	/** The path concerned */
+	path?: string;
+}
+
+/** The codes sent by the server of the Realtime Database, with their code in the code space of the library */
+const rtdbServerCodes: Record<string, string> = {
+	DATA_STALE: "rtdb/data-stale",
+	DISCONNECTED: "rtdb/disconnected",
+	EXPIRED_TOKEN: "rtdb/expired-token",
+	INVALID_TOKEN: "rtdb/invalid-token",
+	MAX_RETRIES: "rtdb/max-retries",
+	NETWORK_ERROR: "rtdb/network-error",
+	OVERRIDDEN_BY_SET: "rtdb/overridden-by-set",
+	PERMISSION_DENIED: "rtdb/permission-denied",
+	TOO_BIG: "rtdb/too-big",
+	UNAVAILABLE: "rtdb/unavailable",
+	USER_CODE_EXCEPTION: "rtdb/user-code-exception",
+	WRITE_CANCELED: "rtdb/write-canceled",
+};
+
+/**
+ * The base of the errors of the library, with a stable code to identify them, e.g. `rtdb/invalid-path`.
+ */
+export class FirebaseNodeJSError extends Error {
+	public readonly cause?: unknown;
+	public readonly listener?: string;
+	public readonly method?: string;
+	public readonly path?: string;
+
+	constructor(public readonly code: string, msg: string, options: FirebaseNodeJSErrorOptions = {}) {
+		super(msg);
+		this.name = "FirebaseNodeJSError";
+
+		const { cause, listener, method, path } = options;
+
+		if (cause !== undefined) this.cause = cause;
+		if (listener !== undefined) this.listener = listener;
+		if (method !== undefined) this.method = method;
+		if (path !== undefined) this.path = path;
+	}
+}
+
+/**
+ * Gets the code of the error in the code space of the library: the codes of the SDKs are converted,
+ * e.g. `auth/wrong-password` to `client/wrong-password` and `PERMISSION_DENIED` to `rtdb/permission-denied`.
+ * The other codes, e.g. the `ECONNREFUSED` of a Node system error, are not converted.
+ * @param error The error from which to get the code
+ * @returns The code, `undefined` if the error does not have one known
+ */
+export function classifyErrorCode(error: unknown): string | undefined {
+	if (error instanceof FirebaseNodeJSError) return error.code;
+	if (!error || typeof error !== "object" || !("code" in error) || typeof error.code !== "string") return;
+
+	const code = error.code;
+	const [, service, reason] = code.match(/^([\w-]+)\/([\w-]+)$/) ?? [];
+
+	if (service === "auth" || service === "app") return `client/${reason}`;
+	if (service === "database") return `rtdb/${reason}`;
+	if (service) return code;
+
+	return isRTDBServerCode(code) ? rtdbServerCodes[code] : undefined;
+}
+
+/**
+ * Checks if the code is one sent by the server of the Realtime Database, like `PERMISSION_DENIED`.
+ * @param code The code to check
+ * @returns `true` if the code is known
+ */
+export function isRTDBServerCode(code: string): boolean {
+	return Object.prototype.hasOwnProperty.call(rtdbServerCodes, code);
+}
@@ -16,5 +16,7 @@
  */
 
 export { deepCopy } from "@firebase/util";
+export * from "./firebase-nodejs-error";
+export * from "./schema-type";
 export * from "./util-type";
 export * from "./utils";
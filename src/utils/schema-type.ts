@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2023 Gauthier Dandele
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Decrements the depth of the schema walk, TypeScript gives up on deeper recursions than the 32 levels of RTDB.
+ */
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/**
+ * A `$wildcard` key of the schema matches any key of the database.
+ */
+type Wildcard = `$${string}`;
+
+type Segment<K extends string> = K extends Wildcard ? string : K;
+
+type WildcardValue<T> = { [K in keyof T]: K extends Wildcard ? T[K] : never }[keyof T];
+
+type ChildSchema<T, K extends string> = T extends readonly (infer U)[]
+	? U
+	: T extends object
+	? K extends keyof T
+		? T[K]
+		: WildcardValue<T>
+	: never;
+
+/**
+ * All the paths described by the schema, where each `$wildcard` segment matches any key.
+ */
+export type SchemaPath<T, D extends number = 15> = [D] extends [never]
+	? never
+	: T extends readonly (infer U)[]
+	? `${number}` | `${number}/${SchemaPath<U, Depth[D]>}`
+	: T extends object
+	? { [K in keyof T & string]: Segment<K> | `${Segment<K>}/${SchemaPath<T[K], Depth[D]>}` }[keyof T & string]
+	: never;
+
+/**
+ * The schema of the node at the path.
+ */
+export type SchemaAt<T, P extends string> = P extends `${infer Head}/${infer Rest}`
+	? SchemaAt<ChildSchema<T, Head>, Rest>
+	: ChildSchema<T, P>;
+
+type KeyedData<T> = { [K in keyof T as K extends Wildcard ? never : K]: SchemaData<T[K]> };
+
+type WildcardData<T> = { [K in keyof T as K extends Wildcard ? string : never]: SchemaData<T[K]> };
+
+/**
+ * The data described by the schema, where each `$wildcard` key becomes an index signature.
+ */
+export type SchemaData<T> = T extends readonly (infer U)[]
+	? SchemaData<U>[]
+	: T extends object
+	? KeyedData<T> & WildcardData<T>
+	: T;
+
+/**
+ * The data of a child of the node, like the value received by the `child_*` listeners or written by `push`.
+ */
+export type ChildData<T> = unknown extends T
+	? unknown
+	: T extends readonly (infer U)[]
+	? U
+	: T extends object
+	? T[keyof T]
+	: never;
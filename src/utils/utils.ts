@@ -15,6 +15,16 @@
  * limitations under the License.
  */
 
+/**
+ * Gets the code of an error raised by the SDKs, like `PERMISSION_DENIED` for a cancelled listener.
+ * @param error The error from which to get the code
+ * @returns The error code or `UNKNOWN` if the error does not have one
+ */
+export function getErrorCode(error: unknown): string {
+	if (error && typeof error === "object" && "code" in error && typeof error.code === "string") return error.code;
+	return "UNKNOWN";
+}
+
 export function printEnumKeys(obj: object) {
 	return Object.keys(obj)
 		.filter((x) => !Number.isInteger(Number(x)))